@@ -0,0 +1,62 @@
+import type { NextRequest } from "next/server";
+import type { IcyEvent } from "@/lib/radio/icy-channels";
+import { isListenerId, subscribeIcyChannel } from "@/lib/radio/icy-channels";
+import { jsonError } from "@/lib/radio/upstream";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** How often a comment is sent to keep idle connections from being closed, in milliseconds. */
+const HEARTBEAT_INTERVAL = 20000;
+
+/**
+ * Streams live "now playing" information of a station as server-sent events.
+ * It doesn't connect to the station: the metadata is read by the stream proxy
+ * out of the audio it's already passing on, when the player loads
+ * `/api/stream` with the same `listener` ID.
+ *
+ * Events:
+ * - `station`: the `icy-*` header details, sent when the stream connects.
+ * - `track`: the current track, sent whenever `StreamTitle` changes.
+ * - `unsupported`: the stream doesn't send ICY metadata. A reconnect to another
+ *   stream of the station may still send `track` events after it.
+ */
+export async function GET(request: NextRequest) {
+    const listener = request.nextUrl.searchParams.get("listener");
+
+    if (!isListenerId(listener)) {
+        return jsonError("A listener ID is required.", 400);
+    }
+
+    const encoder = new TextEncoder();
+    let heartbeat: ReturnType<typeof setInterval> | undefined;
+    let unsubscribe: (() => void) | undefined;
+
+    const close = () => {
+        clearInterval(heartbeat);
+        unsubscribe?.();
+    };
+
+    const events = new ReadableStream<Uint8Array>({
+        start(controller) {
+            const send = (event: IcyEvent) => {
+                const data = event.type === "station" ? event.station : event.type === "track" ? event.track : {};
+                controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`));
+            };
+
+            unsubscribe = subscribeIcyChannel(listener, send);
+            heartbeat = setInterval(() => controller.enqueue(encoder.encode(": ping\n\n")), HEARTBEAT_INTERVAL);
+            request.signal.addEventListener("abort", close);
+        },
+        cancel: close,
+    });
+
+    return new Response(events, {
+        headers: {
+            "Content-Type": "text/event-stream; charset=utf-8",
+            "Cache-Control": "no-store, no-transform",
+            Connection: "keep-alive",
+            "X-Accel-Buffering": "no",
+        },
+    });
+}
@@ -0,0 +1,51 @@
+import type { NextRequest } from "next/server";
+import { demuxIcyStream, isListenerId } from "@/lib/radio/icy-channels";
+import { UpstreamError, jsonError, openUpstream, parseUpstreamUrl, resolveContentType } from "@/lib/radio/upstream";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Pipes an upstream Icecast, Shoutcast or plain HTTP audio stream to the
+ * browser so stations that lack CORS headers or are only served over `http://`
+ * can still be played from the app.
+ *
+ * With a `listener` ID, the station's ICY metadata is requested as well. It's
+ * taken out of the audio and published to `/api/stream/metadata?listener=…`.
+ */
+export async function GET(request: NextRequest) {
+    const upstream = parseUpstreamUrl(request.nextUrl.searchParams.get("url"));
+    const listener = request.nextUrl.searchParams.get("listener");
+
+    if (!upstream) {
+        return jsonError("A valid http(s) stream URL is required.", 400);
+    }
+
+    try {
+        const { response, url } = await openUpstream(upstream, request.signal, isListenerId(listener) ? { "Icy-MetaData": "1" } : {});
+        const contentType = resolveContentType(url, response.headers.get("content-type"));
+
+        if (!contentType) {
+            await response.body?.cancel();
+            return jsonError("The URL doesn't point at an audio stream or playlist.", 415);
+        }
+
+        const body = isListenerId(listener) && response.body ? demuxIcyStream(listener, response, response.body, request.signal) : response.body;
+
+        return new Response(body, {
+            status: 200,
+            headers: {
+                "Content-Type": contentType,
+                "Cache-Control": "no-store",
+                "X-Content-Type-Options": "nosniff",
+                "X-Stream-Url": url.toString(),
+            },
+        });
+    } catch (error) {
+        if (error instanceof UpstreamError) {
+            return error.status === 499 ? new Response(null, { status: 499 }) : jsonError(error.message, error.status);
+        }
+
+        throw error;
+    }
+}
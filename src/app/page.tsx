@@ -2,6 +2,7 @@
 
 import { useEffect } from "react";
 import { useTheme } from "next-themes";
+import { HotkeysProvider } from "react-hotkeys-hook";
 import { RadioChatBot } from "./radio-chatbot";
 
 export default function HomeScreen() {
@@ -12,5 +13,10 @@ export default function HomeScreen() {
         setTheme("dark");
     }, [setTheme]);
 
-    return <RadioChatBot />;
+    // The provider keeps track of every bound shortcut for the shortcuts overlay
+    return (
+        <HotkeysProvider>
+            <RadioChatBot />
+        </HotkeysProvider>
+    );
 }
@@ -7,12 +7,73 @@ import {
     UploadCloud02,
     ChevronDown,
     Check,
+    ClockRewind,
+    Keyboard01,
+    Recording01,
+    Stars02,
 } from "@untitledui/icons";
 import { Button } from "@/components/base/buttons/button";
 import { TextArea } from "@/components/base/textarea/textarea";
 import { Avatar } from "@/components/base/avatar/avatar";
 import { Dropdown } from "@/components/base/dropdown/dropdown";
+import { Slider } from "@/components/base/slider/slider";
+import { FavoriteButton } from "@/components/radio/favorite-button";
+import { AlarmDialog } from "@/components/radio/alarm-dialog";
+import { AssistantSettingsDialog } from "@/components/radio/assistant-settings-dialog";
+import { EqualizerMenu } from "@/components/radio/equalizer-menu";
+import { ListeningHistory } from "@/components/radio/listening-history";
+import { PresetGrid } from "@/components/radio/preset-grid";
+import { RecordButton } from "@/components/radio/record-button";
+import { Recordings } from "@/components/radio/recordings";
+import { ResolveAttempts } from "@/components/radio/resolve-attempts";
+import type { RecordableStation } from "@/components/radio/schedule-recording-dialog";
+import { ScheduleRecordingDialog } from "@/components/radio/schedule-recording-dialog";
+import { ShortcutsDialog } from "@/components/radio/shortcuts-dialog";
+import { StationCandidates } from "@/components/radio/station-candidates";
+import { StationSearchDialog } from "@/components/radio/station-search-dialog";
+import { ThreadSidebar } from "@/components/radio/thread-sidebar";
+import { AlarmRinging, TimerBadges, TimerMenu } from "@/components/radio/timer-menu";
+import { Visualizer } from "@/components/radio/visualizer";
 import { AnimatePresence, motion } from "motion/react";
+import { useAssistant } from "@/hooks/use-assistant";
+import { useCrossfade } from "@/hooks/use-crossfade";
+import { useEqualizer } from "@/hooks/use-equalizer";
+import { useFavorites } from "@/hooks/use-favorites";
+import { useMediaSession } from "@/hooks/use-media-session";
+import { useNowPlaying } from "@/hooks/use-now-playing";
+import { usePlayer } from "@/hooks/use-player";
+import { useRecordings } from "@/hooks/use-recordings";
+import { useShortcut } from "@/hooks/use-shortcut";
+import { useStore } from "@/hooks/use-store";
+import { useThreads } from "@/hooks/use-threads";
+import { useTimers } from "@/hooks/use-timers";
+import { useVolume } from "@/hooks/use-volume";
+import type { AssistantAction, AssistantRequest } from "@/lib/radio/assistant";
+import { AssistantError } from "@/lib/radio/assistant";
+import { getStations, matchStation } from "@/lib/radio/catalog";
+import { getFavoriteId } from "@/lib/radio/favorites";
+import type { HistoryEntry } from "@/lib/radio/history";
+import { formatDuration, historyStore, recordHistory } from "@/lib/radio/history";
+import { isHlsCodec } from "@/lib/radio/hls";
+import { formatNowPlaying } from "@/lib/radio/icy";
+import type { Intent } from "@/lib/radio/intents";
+import { VOLUME_STEP } from "@/lib/radio/intents";
+import { preferLiveStations } from "@/lib/radio/live-metadata";
+import { localAssistant } from "@/lib/radio/local-assistant";
+import type { QueuedStation } from "@/lib/radio/media-session";
+import { getAdjacentStation, getStationQueue } from "@/lib/radio/media-session";
+import { RADIO_MODES, acceptsCatalogStation, filterCatalog, filterDirectoryStations, getRadioMode, radioModeStore } from "@/lib/radio/modes";
+import type { PlayerStatus } from "@/lib/radio/player";
+import { getPlayerStream, isPlayingState } from "@/lib/radio/player";
+import { fromProxyUrl } from "@/lib/radio/proxy";
+import { getStreamUrl, isHlsStation, isPlayableStation, radioBrowser } from "@/lib/radio/radio-browser";
+import type { StationCandidate } from "@/lib/radio/ranking";
+import { AUTO_PLAY_CONFIDENCE, MAX_CANDIDATES, rankStations } from "@/lib/radio/ranking";
+import type { StationSearchResult } from "@/lib/radio/station-search";
+import type { ChatMessage } from "@/lib/radio/threads";
+import { getNextOccurrence } from "@/lib/radio/timers";
+import type { PlayStationResult, ToolCallRequest, ToolHandlers } from "@/lib/radio/tools";
+import { ToolError, invokeTool, renderToolResult, toolCall } from "@/lib/radio/tools";
 import { cx } from "@/utils/cx";
 
 // Simple pause icon component
@@ -37,14 +98,9 @@ const VolumeMutedIcon = ({ className }: { className?: string }) => (
     </svg>
 );
 
-interface Message {
-    id: string;
-    role: "user" | "assistant";
-    content: string;
-    stationName?: string;
-    stationUrl?: string;
-}
+type StationLookup = { name: string; url: string; urls?: string[]; hls?: boolean; favicon?: string } | { candidates: StationCandidate[] } | null;
 
+// Only catalog stations, which every search mode can play
 const suggestedPrompts = [
     {
         id: 1,
@@ -53,87 +109,77 @@ const suggestedPrompts = [
     },
     {
         id: 2,
-        text: "Play Radio Mirchi",
+        text: "Play Classic FM",
         icon: PlayCircle,
     },
     {
         id: 3,
-        text: "Play Radio City",
+        text: "Play Capital FM",
         icon: PlayCircle,
     },
     {
         id: 4,
-        text: "Play Red FM",
+        text: "Play some classical",
         icon: PlayCircle,
     },
 ];
 
-// Radio stations database - Using Radio Browser API for working streams
-// Note: We'll fetch working streams from Radio Browser API which provides CORS-enabled URLs
-// Kodai FM: https://radiosindia.com/kodaifm.html (Kodaikanal FM 100.5MHz - Tamil radio)
-// Direct stream URLs for priority stations - Multiple fallback URLs
-// Kodai FM: https://radiosindia.com/kodaifm.html (Kodaikanal FM 100.5MHz - Tamil radio)
-// Multiple stream URLs to try as fallbacks
-const kodaiFMStreamUrls = [
-    "https://radioindia.net/radio/kodaifm/icecast.audio",
-    "http://radioindia.net/radio/kodaifm/icecast.audio",
-    "https://streaming.radio.co/sd1a1c8b3d/listen",
-    "http://streaming.radio.co/sd1a1c8b3d/listen",
-];
+const alarmTimeFormat = new Intl.DateTimeFormat(undefined, { weekday: "long", timeStyle: "short" });
 
-const directStreamUrls: Record<string, string[]> = {
-    // Kodai FM - multiple fallback URLs
-    "kodai fm": kodaiFMStreamUrls,
-    "kodai": kodaiFMStreamUrls,
-    "kodaisaral fm": kodaiFMStreamUrls,
-    "kodaisaralfm": kodaiFMStreamUrls,
-    "kodaikanal fm": kodaiFMStreamUrls,
-    "kodaikanal": kodaiFMStreamUrls,
+const PLAYER_STATUS_LABELS: Partial<Record<PlayerStatus, string>> = {
+    connecting: "Connecting…",
+    buffering: "Buffering…",
+    stalled: "Stream stalled",
 };
 
-const radioStations: Record<string, string> = {
-    // Other popular stations (will use Radio Browser API)
-    "bbc radio 1": "",
-    "bbc radio 2": "",
-    "bbc radio 4": "",
-    "classic fm": "",
-    "capital fm": "",
-    "radio mirchi": "",
-    "mirchi": "",
-    "radio city": "",
-    "red fm": "",
-    "redfm": "",
-    "big fm": "",
-    "bigfm": "",
-};
+const HELP_TEXT = `Here's what I can do:\n\n• "Play Kodai FM" — play a station by name\n• "Play some classical" — play by genre, language or country\n• "Pause", "Resume", "Stop"\n• "Louder", "Quieter", "Volume 40%", "Mute"\n• "What's playing?"\n• "Search for jazz stations" — pick from a few matches\n• "Add this to favorites"\n• "What stations do you have?", "Tell me about Classic FM"\n• "Stop in 30 minutes" — sleep timer\n• "Wake me at 6:30 with Classic FM" — wake-up alarm\n\nStar a station to save it as a preset, then press 1–9 to play it. Press ? to see every keyboard shortcut.`;
 
 export const RadioChatBot = () => {
-    const [messages, setMessages] = useState<Message[]>([]);
+    const threads = useThreads();
+    const { messages, setMessages } = threads;
     const [inputValue, setInputValue] = useState("");
-    const [isPlaying, setIsPlaying] = useState(false);
-    const [currentStation, setCurrentStation] = useState<string | null>(null);
-    const [volume, setVolume] = useState(1);
-    const [isMuted, setIsMuted] = useState(false);
-    const [selectedModel, setSelectedModel] = useState("Radio Player");
+    const [radioModeId, setRadioModeId] = useStore(radioModeStore);
+    const radioMode = getRadioMode(radioModeId);
     const [mounted, setMounted] = useState(false);
-    const audioRef = useRef<HTMLAudioElement | null>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const textareaRef = useRef<HTMLTextAreaElement>(null);
-    const idCounterRef = useRef(0);
+    const { state: player, engine } = usePlayer();
+    const volume = useVolume(engine);
+    const favorites = useFavorites();
+    const [history, setHistory] = useStore(historyStore);
+    const [view, setView] = useState<"chat" | "history" | "recordings">("chat");
+    const [isAlarmDialogOpen, setIsAlarmDialogOpen] = useState(false);
+    const [isStationSearchOpen, setIsStationSearchOpen] = useState(false);
+    const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+    const [isScheduleOpen, setIsScheduleOpen] = useState(false);
+    const [isAssistantSettingsOpen, setIsAssistantSettingsOpen] = useState(false);
+    const assistant = useAssistant();
+    const stream = getPlayerStream(player);
+    const currentStation = stream?.name ?? null;
+    const isPlaying = isPlayingState(player);
+    const equalizer = useEqualizer(engine, currentStation);
+    const crossfade = useCrossfade(engine);
+    // HLS streams carry their own metadata; only progressive streams are read through the ICY endpoint
+    const icyNowPlaying = useNowPlaying(stream?.kind === "progressive" ? stream.url : null);
+    const nowPlaying = { station: icyNowPlaying.station, track: stream?.track ?? icyNowPlaying.track };
+    const playerStatusText =
+        player.status === "reconnecting"
+            ? `Reconnecting (attempt ${player.attempt})…`
+            : player.status === "resolving"
+              ? `Switching to ${player.request.name}…`
+              : PLAYER_STATUS_LABELS[player.status];
     
-    // Generate stable IDs
-    const generateId = () => {
-        idCounterRef.current += 1;
-        return `msg-${idCounterRef.current}`;
-    };
+    // Message IDs stay unique across reloads, since conversations are saved
+    const generateId = () => crypto.randomUUID();
+
+    // Replies remember the mode they were made in, since it decides which stations are found
+    const createAssistantMessage = (id: string, content: string): ChatMessage => ({ id, role: "assistant", content, mode: radioMode.id });
     
     // Ensure client-side only rendering
     useEffect(() => {
         setMounted(true);
     }, []);
 
-    const RADIO_MODELS = ["Radio Player", "Premium Radio", "Classic Radio", "Live Radio"];
-
     // Auto-resize textarea
     useEffect(() => {
         if (textareaRef.current) {
@@ -152,67 +198,54 @@ export const RadioChatBot = () => {
         scrollToBottom();
     }, [messages]);
 
-    const findStation = async (query: string): Promise<{ name: string; url: string; urls?: string[] } | null> => {
-        const normalizedQuery = query.toLowerCase().trim();
-        
-        // Check if it's Kodai FM first (priority) - return multiple URLs to try
-        if (directStreamUrls[normalizedQuery]) {
+    const findStation = async (query: string): Promise<StationLookup> => {
+        // Curated catalog stations with known streams are played directly
+        const catalogStation = matchStation(query);
+        if (catalogStation && acceptsCatalogStation(radioMode, catalogStation)) {
             return {
-                name: "Kodai FM (Kodaikanal FM 100.5MHz)",
-                url: directStreamUrls[normalizedQuery][0], // First URL as primary
-                urls: directStreamUrls[normalizedQuery], // All URLs for fallback
+                name: catalogStation.name,
+                url: catalogStation.streams[0], // First URL as primary
+                urls: catalogStation.streams, // All URLs for fallback
+                hls: isHlsCodec(catalogStation.codec),
             };
         }
-        
-        // Check for partial matches for Kodai FM
-        const isKodaiFM = normalizedQuery.includes('kodai') || normalizedQuery.includes('kodaisaral') || normalizedQuery.includes('kodaikanal');
-        if (isKodaiFM) {
-            // Return multiple URLs to try as fallbacks
-            return {
-                name: "Kodai FM (Kodaikanal FM 100.5MHz)",
-                url: kodaiFMStreamUrls[0], // First URL as primary
-                urls: kodaiFMStreamUrls, // All URLs for fallback
-            };
-        }
-        
+
+        if (!radioMode.searchesDirectory) return null;
+
         // For other stations, use Radio Browser API
         try {
-            // For other stations, use votes order
-            const apiUrl = `https://de1.api.radio-browser.info/json/stations/search?name=${encodeURIComponent(query)}&limit=20&order=votes&reverse=true&hidebroken=true`;
-            
-            // Search for the station
-            const searchResponse = await fetch(apiUrl, {
-                headers: {
-                    'User-Agent': 'RadioChatBot/1.0',
-                },
+            // Searched and ranked by the whole query, so words like a city or country still pick the right station
+            const stations = await radioBrowser.searchStations({
+                name: query,
+                limit: 20,
+                order: "votes",
+                reverse: true,
+                hidebroken: true,
+                bitrateMin: radioMode.bitrateMin,
             });
-            
-            if (!searchResponse.ok) {
-                throw new Error('API request failed');
+
+            // Filter for working streams (hidebroken=true already filters, but we double-check)
+            const workingStations = filterDirectoryStations(radioMode, stations.filter(isPlayableStation));
+            const { candidates, confidence } = rankStations(query, workingStations);
+
+            if (candidates.length > 0 && confidence >= AUTO_PLAY_CONFIDENCE) {
+                // Live Radio plays whichever of the equally good matches announces what's on air
+                const best = candidates.filter((candidate) => candidate.score === candidates[0].score);
+                const [{ station }] = radioMode.prefersLiveMetadata
+                    ? preferLiveStations(best, (candidate) => (isHlsStation(candidate.station) ? null : getStreamUrl(candidate.station)))
+                    : best;
+
+                return {
+                    name: station.name || query,
+                    url: getStreamUrl(station),
+                    hls: isHlsStation(station),
+                    favicon: station.favicon || undefined,
+                };
             }
-            
-            const stations = await searchResponse.json();
-            
-            if (stations && stations.length > 0) {
-                // Filter for working streams (hidebroken=true already filters, but we double-check)
-                const workingStations = stations.filter((s: any) => 
-                    s.url && 
-                    s.url.startsWith('http') && 
-                    s.url_resolved && 
-                    s.url_resolved.startsWith('http')
-                );
-                
-                if (workingStations.length > 0) {
-                    // Get the most popular working station
-                    const station = workingStations[0];
-                    // Use url_resolved which is the actual working URL
-                    const streamUrl = station.url_resolved || station.url;
-                    
-                    return { 
-                        name: station.name || query, 
-                        url: streamUrl 
-                    };
-                }
+
+            // Ambiguous matches are offered to the listener instead of guessing
+            if (candidates.length > 0) {
+                return { candidates };
             }
         } catch (error) {
             console.error("Error fetching from Radio Browser API:", error);
@@ -221,232 +254,465 @@ export const RadioChatBot = () => {
         return null;
     };
 
-    const playStation = (stationName: string, stationUrl: string, fallbackUrls?: string[], urlIndex: number = 0) => {
-        // Stop current audio if playing
-        if (audioRef.current) {
-            audioRef.current.pause();
-            audioRef.current = null;
-        }
+    const updateMessage = (id: string, patch: Partial<ChatMessage>) => {
+        setMessages((prev) => prev.map((msg) => (msg.id === id ? { ...msg, ...patch } : msg)));
+    };
 
-        const urlsToTry = fallbackUrls && fallbackUrls.length > 0 ? fallbackUrls : [stationUrl];
-        const currentUrl = urlsToTry[urlIndex] || stationUrl;
+    const playStream = async (stationName: string, urls: string[], hls?: boolean, favicon?: string, explicit?: boolean): Promise<PlayStationResult> => {
+        // Replaces the current station, and any station that is still connecting
+        const result = await engine.play({ name: stationName, urls, hls, favicon, mode: radioMode, explicit });
 
-        // Show loading message
-        const loadingId = generateId();
-        setMessages((prev) => [
-            ...prev,
-            {
-                id: loadingId,
-                role: "assistant",
-                content: `Connecting to ${stationName}${urlsToTry.length > 1 && urlIndex > 0 ? ` (trying alternative stream ${urlIndex + 1}/${urlsToTry.length})...` : '...'}`,
-            },
-        ]);
+        if ("aborted" in result) return { status: "superseded", station: stationName };
+        if (!result.ok) return { status: "failed", station: stationName, kept: result.kept, attempts: result.attempts };
 
-        // Create new audio element
-        const audio = new Audio(currentUrl);
-        audio.volume = isMuted ? 0 : volume;
-        audio.crossOrigin = "anonymous";
-        audio.preload = "auto";
-
-        // Set timeout to detect if stream doesn't load
-        const loadTimeout = setTimeout(() => {
-            if (!isPlaying && urlIndex < urlsToTry.length - 1) {
-                // Try next URL
-                console.log(`Stream ${urlIndex + 1} failed, trying next...`);
-                playStation(stationName, stationUrl, fallbackUrls, urlIndex + 1);
-            } else if (!isPlaying) {
-                // All URLs failed, try Radio Browser API as last resort
-                console.log("All direct URLs failed, trying Radio Browser API...");
-                tryRadioBrowserAPI(stationName);
-            }
-        }, 8000);
-
-        audio.addEventListener("loadeddata", () => {
-            clearTimeout(loadTimeout);
-            audio.play().catch((error) => {
-                console.error("Error playing audio:", error, "URL:", currentUrl);
-                // Try next URL if available
-                if (urlIndex < urlsToTry.length - 1) {
-                    playStation(stationName, stationUrl, fallbackUrls, urlIndex + 1);
-                } else {
-                    setIsPlaying(false);
-                    setCurrentStation(null);
-                    tryRadioBrowserAPI(stationName);
-                }
-            });
-        });
+        return { status: result.started ? "playing" : "ready", station: stationName, url: result.url, hls, attempts: result.attempts };
+    };
 
-        audio.addEventListener("canplay", () => {
-            clearTimeout(loadTimeout);
-        });
+    // Stations played from cards, presets and lists show up like the play_station tool's results
+    const playStation = async (messageId: string, stationName: string, urls: string[], hls?: boolean, favicon?: string, explicit?: boolean) => {
+        const result = await playStream(stationName, urls, hls, favicon, explicit);
+        updateMessage(messageId, renderToolResult({ tool: "play_station", ok: true, data: result }));
+    };
 
-        audio.addEventListener("play", () => {
-            clearTimeout(loadTimeout);
-            setIsPlaying(true);
-            setCurrentStation(stationName);
-            // Update the last message to show success
-            setMessages((prev) => {
-                const newMessages = [...prev];
-                const lastMessage = newMessages[newMessages.length - 1];
-                if (lastMessage && lastMessage.content.includes("Connecting")) {
-                    lastMessage.content = `✅ Now playing ${stationName}...`;
-                }
-                return newMessages;
-            });
-        });
+    const togglePlayPause = () => {
+        if (isPlaying) {
+            engine.pause();
+        } else {
+            engine.resume();
+        }
+    };
 
-        audio.addEventListener("pause", () => {
-            setIsPlaying(false);
-        });
+    const addAssistantMessage = (content: string) => {
+        setMessages((prev) => [...prev, createAssistantMessage(generateId(), content)]);
+    };
 
-        audio.addEventListener("error", (e) => {
-            clearTimeout(loadTimeout);
-            console.error("Audio error:", e, "URL:", currentUrl, "Index:", urlIndex);
-            
-            // Try next URL if available
-            if (urlIndex < urlsToTry.length - 1) {
-                console.log(`Trying next URL (${urlIndex + 2}/${urlsToTry.length})...`);
-                playStation(stationName, stationUrl, fallbackUrls, urlIndex + 1);
-            } else {
-                // All URLs failed, try Radio Browser API
-                setIsPlaying(false);
-                setCurrentStation(null);
-                tryRadioBrowserAPI(stationName);
-            }
-        });
+    // The engine outlives renders, so it reports to whichever conversation is open at the time
+    const addAssistantMessageRef = useRef(addAssistantMessage);
 
-        // Try to load the stream
-        audio.load();
-        audioRef.current = audio;
-    };
+    useEffect(() => {
+        addAssistantMessageRef.current = addAssistantMessage;
+    });
 
-    const tryRadioBrowserAPI = async (stationName: string) => {
-        try {
-            const searchResponse = await fetch(
-                `https://de1.api.radio-browser.info/json/stations/search?name=kodai&limit=10&order=clickcount&reverse=true&hidebroken=true`,
-                {
-                    headers: {
-                        'User-Agent': 'RadioChatBot/1.0',
-                    },
+    // Tell the listener when a station drops out for good
+    useEffect(
+        () =>
+            engine.subscribe((state, event) => {
+                if (event.type === "reconnect_failed" && state.status === "error") {
+                    addAssistantMessageRef.current(`Lost the connection to ${state.name} and couldn't get it back. ${state.error}`);
                 }
-            );
-            
-            if (searchResponse.ok) {
-                const stations = await searchResponse.json();
-                const workingStations = stations.filter((s: any) => 
-                    s.url && s.url.startsWith('http') && s.url_resolved && s.url_resolved.startsWith('http')
-                );
-                
-                if (workingStations.length > 0) {
-                    const station = workingStations[0];
-                    const streamUrl = station.url_resolved || station.url;
-                    setMessages((prev) => [
-                        ...prev,
-                        {
-                            id: generateId(),
-                            role: "assistant",
-                            content: `Found ${station.name} from Radio Browser. Trying to play...`,
-                        },
-                    ]);
-                    playStation(station.name || stationName, streamUrl);
-                    return;
-                }
-            }
-        } catch (error) {
-            console.error("Radio Browser API error:", error);
-        }
-        
-        // Final fallback - show message with direct link
-        setMessages((prev) => [
-            ...prev,
-            {
-                id: generateId(),
-                role: "assistant",
-                content: `Sorry, I couldn't play ${stationName} due to browser security restrictions (CORS).\n\n**Alternative options:**\n• Visit [radiosindia.com/kodaifm.html](https://radiosindia.com/kodaifm.html) to listen directly\n• Visit [kodaisaralfm.com](https://www.kodaisaralfm.com/) for the official stream\n• Try a different station like "BBC Radio 1" which usually works\n\n💡 **Note:** In production, this would use a backend proxy to bypass CORS restrictions.`,
-            },
-        ]);
-    };
+            }),
+        [engine],
+    );
 
-    const stopStation = () => {
-        if (audioRef.current) {
-            audioRef.current.pause();
-            audioRef.current = null;
-            setIsPlaying(false);
-            setCurrentStation(null);
-        }
-    };
+    const findStationByFilters = async (filters: { genre?: string; language?: string; country?: string }) => {
+        if (!radioMode.searchesDirectory) {
+            const station = filterCatalog(getStations(), filters).find((candidate) => acceptsCatalogStation(radioMode, candidate));
 
-    const togglePlayPause = () => {
-        if (audioRef.current) {
-            if (isPlaying) {
-                audioRef.current.pause();
-            } else {
-                audioRef.current.play();
-            }
+            return station ? { name: station.name, url: station.streams[0], urls: station.streams, hls: isHlsCodec(station.codec) } : null;
         }
-    };
 
-    const handleSend = async () => {
-        if (!inputValue.trim()) return;
-
-        const userMessage: Message = {
-            id: generateId(),
-            role: "user",
-            content: inputValue,
-        };
+        try {
+            const stations = await radioBrowser.searchStations({
+                tag: filters.genre,
+                language: filters.language,
+                countrycode: filters.country,
+                limit: 20,
+                order: "votes",
+                reverse: true,
+                hidebroken: true,
+                bitrateMin: radioMode.bitrateMin,
+            });
+            const playable = filterDirectoryStations(radioMode, stations.filter(isPlayableStation));
+            const [station] = radioMode.prefersLiveMetadata
+                ? preferLiveStations(playable, (candidate) => (isHlsStation(candidate) ? null : getStreamUrl(candidate)))
+                : playable;
 
-        setMessages((prev) => [...prev, userMessage]);
+            return station ? { name: station.name, url: getStreamUrl(station), hls: isHlsStation(station), favicon: station.favicon || undefined } : null;
+        } catch (error) {
+            console.error("Error fetching from Radio Browser API:", error);
+            return null;
+        }
+    };
 
+    const searchAndPlay = async (label: string, lookup: () => Promise<StationLookup>, notFound: string) => {
         // Show searching message
         const searchingId = generateId();
         setMessages((prev) => [
             ...prev,
-            {
-                id: searchingId,
-                role: "assistant",
-                content: `Searching for "${inputValue}"...`,
-            },
+            createAssistantMessage(searchingId, `Searching for ${label}...`),
         ]);
 
         // Find and play station
-        const station = await findStation(inputValue);
-        if (station) {
-            // Update searching message
+        const station = await lookup();
+        if (station && "candidates" in station) {
             setMessages((prev) =>
                 prev.map((msg) =>
                     msg.id === searchingId
                         ? {
                               ...msg,
-                              content: `Found ${station.name}! Connecting...`,
-                              stationName: station.name,
-                              stationUrl: station.url,
+                              content: `I found several stations matching ${label}. Which one did you mean?`,
+                              candidates: station.candidates,
                           }
                         : msg
                 )
             );
-            playStation(station.name, station.url, station.urls);
+        } else if (station) {
+            // Update searching message
+            updateMessage(searchingId, { content: `Found ${station.name}! Connecting...` });
+            await playStation(searchingId, station.name, station.urls ?? [station.url], station.hls, station.favicon);
         } else {
             // Update searching message with error
+            setMessages((prev) => prev.map((msg) => (msg.id === searchingId ? { ...msg, content: notFound } : msg)));
+        }
+    };
+
+    const playCandidate = (messageId: string, candidate: StationCandidate) => {
+        const { station } = candidate;
+        const connectingId = generateId();
+
+        setMessages((prev) => [
+            ...prev.map((msg) => (msg.id === messageId ? { ...msg, selectedCandidateId: station.stationuuid } : msg)),
+            createAssistantMessage(connectingId, `Connecting to ${station.name}...`),
+        ]);
+        playStation(connectingId, station.name, [getStreamUrl(station)], isHlsStation(station), station.favicon || undefined, true);
+    };
+
+    // Log every playback session to the listening history
+    useEffect(() => recordHistory(engine), [engine]);
+
+    const playFromHistory = (entry: HistoryEntry) => {
+        const connectingId = generateId();
+
+        setView("chat");
+        setMessages((prev) => [...prev, createAssistantMessage(connectingId, `Connecting to ${entry.station}...`)]);
+        playStation(connectingId, entry.station, entry.url ? [fromProxyUrl(entry.url)] : [], entry.hls, entry.favicon, Boolean(entry.url));
+    };
+
+    // Station cards in saved conversations play their station again
+    const replayStation = (message: ChatMessage) => {
+        if (!message.stationName || !message.stationUrl) return;
+        const connectingId = generateId();
+
+        setMessages((prev) => [...prev, createAssistantMessage(connectingId, `Connecting to ${message.stationName}...`)]);
+        playStation(connectingId, message.stationName, [fromProxyUrl(message.stationUrl)], message.stationHls, undefined, true);
+    };
+
+    const playFavorite = (station: QueuedStation) => {
+        const connectingId = generateId();
+
+        setMessages((prev) => [...prev, createAssistantMessage(connectingId, `Connecting to ${station.name}...`)]);
+        playStation(connectingId, station.name, [station.url], station.hls, station.favicon, true);
+    };
+
+    // Previous and next on the lock screen or a headset step through the favorites or recent stations
+    const stationQueue = getStationQueue(favorites.presets, favorites.stations, history);
+    const previousStation = getAdjacentStation(stationQueue, currentStation, -1);
+    const nextStation = getAdjacentStation(stationQueue, currentStation, 1);
+
+    useMediaSession({
+        stream,
+        track: nowPlaying.track,
+        isPlaying,
+        onPlay: () => engine.resume(),
+        onPause: () => engine.pause(),
+        onStop: () => engine.stop(),
+        onPrevious: previousStation && previousStation.name !== currentStation ? () => playFavorite(previousStation) : null,
+        onNext: nextStation && nextStation.name !== currentStation ? () => playFavorite(nextStation) : null,
+    });
+
+    const playSearchResult = (station: StationSearchResult) => {
+        const connectingId = generateId();
+
+        setView("chat");
+        setMessages((prev) => [...prev, createAssistantMessage(connectingId, `Connecting to ${station.name}...`)]);
+        playStation(connectingId, station.name, station.urls, station.hls, station.favicon, true);
+    };
+
+    useShortcut("playPause", togglePlayPause, stream !== null);
+    useShortcut("mute", () => volume.setMuted(!volume.muted));
+    useShortcut("volumeUp", () => volume.setLevel(volume.level + VOLUME_STEP));
+    useShortcut("volumeDown", () => volume.setLevel(volume.level - VOLUME_STEP));
+    // Number keys play the matching preset
+    useShortcut("presets", (_event, hotkey) => {
+        const station = favorites.presets[Number(hotkey.keys?.[0]) - 1];
+        if (station) playFavorite(station);
+    });
+    useShortcut("focusChat", () => {
+        setView("chat");
+        textareaRef.current?.focus();
+    });
+    useShortcut("stationSearch", () => setIsStationSearchOpen(true));
+    useShortcut("help", () => setIsShortcutsOpen(true));
+
+    const timers = useTimers(engine, {
+        onSleep: () => addAssistantMessage("Sleep timer finished. Good night! 🌙"),
+        onAlarm: (station) => {
+            addAssistantMessage(`⏰ Good morning! Waking you up with ${station}.`);
+            callTool(toolCall("play_station", { station }));
+        },
+    });
+
+    const recorder = useRecordings(engine, {
+        onFinish: (recording) =>
+            addAssistantMessage(`💾 Saved ${formatDuration(Math.round(recording.duration / 1000))} of ${recording.station}. You'll find it under Recordings.`),
+        onError: (station, message) => addAssistantMessage(`Recording ${station} failed: ${message}`),
+    });
+    const currentRecording = recorder.active.find((recording) => recording.error === null && recording.station === currentStation) ?? null;
+
+    const toggleRecording = () => {
+        if (currentRecording) {
+            recorder.stopRecording(currentRecording.id);
+        } else if (stream) {
+            recorder.startRecording({ name: stream.name, url: stream.url, kind: stream.kind });
+        }
+    };
+
+    // Scheduled recordings copy the stream itself, so only progressive stations can be scheduled
+    const recordableStations: RecordableStation[] = [
+        ...(stream?.kind === "progressive" ? [{ name: stream.name, url: fromProxyUrl(stream.url) }] : []),
+        ...favorites.stations.filter((station) => !station.hls).map(({ name, url }) => ({ name, url })),
+    ].filter((station, index, all) => all.findIndex((other) => getFavoriteId(other.name) === getFavoriteId(station.name)) === index);
+
+    const setAlarm = (at: number, station: string) => {
+        timers.setAlarm(at, station);
+        addAssistantMessage(`Alarm set for ${alarmTimeFormat.format(at)}. I'll wake you with ${station}, starting quietly. Keep this tab open.`);
+    };
+
+    // The most recent list of candidates the listener can pick from by number
+    const pendingCandidates = messages.findLast((msg) => msg.candidates)?.candidates ?? [];
+
+    const findFavorite = async (station: string) => {
+        if (stream && getFavoriteId(station) === getFavoriteId(stream.name)) {
+            return { name: stream.name, url: stream.url, hls: stream.kind === "hls", favicon: stream.favicon };
+        }
+
+        const found = await findStation(station);
+        if (!found) throw new ToolError(`I couldn't find a station matching "${station}".`);
+        if ("candidates" in found) throw new ToolError(`Several stations match "${station}". Play the one you mean, then ask me to add it.`);
+
+        return found;
+    };
+
+    const tools: ToolHandlers = {
+        play_station: async ({ station }, { report }) => {
+            report(`Searching for "${station}"...`);
+            const found = await findStation(station);
+
+            if (!found) {
+                throw new ToolError(
+                    radioMode.id !== "player"
+                        ? `I couldn't find a station matching "${station}" in ${radioMode.label} (${radioMode.description.toLowerCase()}). Switch to Radio Player below to search every station.`
+                        : `I couldn't find a station matching "${station}". Try asking for:\n\n• "Kodai FM"\n• "Classic FM"\n• "Capital FM"\n• Or any other radio station name`,
+                );
+            }
+
+            if ("candidates" in found) return { status: "ambiguous", query: station, candidates: found.candidates };
+
+            report(`Found ${found.name}! Connecting...`);
+            return playStream(found.name, found.urls ?? [found.url], found.hls, found.favicon);
+        },
+        search_stations: async ({ query, genre, language, country }, { report }) => {
+            if (!query && !genre && !language && !country) {
+                throw new ToolError("What should I search for? Give me a station name, a genre or a language.");
+            }
+            if (!radioMode.searchesDirectory) {
+                throw new ToolError(
+                    `${radioMode.label} only plays the hand-picked catalog. Ask "What stations do you have?" to see it, or switch to Radio Player below to search every station.`,
+                );
+            }
+
+            const label = [query && `"${query}"`, language, genre, country && `stations from ${country}`].filter(Boolean).join(" ");
+            report(`Searching for ${label}...`);
+
+            const stations = await radioBrowser
+                .searchStations({
+                    name: query,
+                    tag: genre,
+                    language,
+                    countrycode: country,
+                    limit: 20,
+                    order: "votes",
+                    reverse: true,
+                    hidebroken: true,
+                    bitrateMin: radioMode.bitrateMin,
+                })
+                .catch((error: unknown) => {
+                    console.error("Error fetching from Radio Browser API:", error);
+                    throw new ToolError("The station directory isn't answering right now. Please try again in a moment.");
+                });
+            const playable = filterDirectoryStations(radioMode, stations.filter(isPlayableStation));
+            const candidates = query ? rankStations(query, playable).candidates : playable.slice(0, MAX_CANDIDATES).map((station) => ({ station, score: 1 }));
+
+            return { label, candidates };
+        },
+        pause: () => {
+            if (!isPlaying || !currentStation) throw new ToolError("Nothing is playing right now.");
+            engine.pause();
+            return { station: currentStation };
+        },
+        resume: () => {
+            if (!currentStation) throw new ToolError("There's no station to resume. What would you like to play?");
+            engine.resume();
+            return { station: currentStation };
+        },
+        stop: () => {
+            if (!currentStation) throw new ToolError("Nothing is playing right now.");
+            engine.stop();
+            return { station: currentStation };
+        },
+        set_volume: ({ level }) => ({ level: volume.setLevel(level / 100) }),
+        add_favorite: async ({ station = currentStation ?? undefined }) => {
+            if (!station) throw new ToolError("Nothing is playing. Which station should I add to your favorites?");
+
+            const favorite = await findFavorite(station);
+            if (favorites.isFavorite(favorite.name)) return { station: favorite.name, added: false, preset: null };
+
+            const freeSlot = favorites.presets.indexOf(null);
+            favorites.addFavorite(favorite);
+            return { station: favorite.name, added: true, preset: freeSlot === -1 ? null : freeSlot + 1 };
+        },
+        set_sleep_timer: ({ minutes }) => {
+            timers.setSleepTimer(minutes);
+            return { minutes };
+        },
+        get_now_playing: () => {
+            if (!currentStation) throw new ToolError("Nothing is playing right now.");
+            return { station: currentStation, track: nowPlaying.track ?? null, isPlaying };
+        },
+    };
+
+    // Every tool call gets a chat message of its own, which slow tools fill in as they go
+    const callTool = async (request: ToolCallRequest) => {
+        const messageId = generateId();
+        const showMessage = (patch: Partial<ChatMessage>) =>
             setMessages((prev) =>
-                prev.map((msg) =>
-                    msg.id === searchingId
-                        ? {
-                              ...msg,
-                              content: `I couldn't find a station matching "${inputValue}". Try asking for:\n\n• "BBC Radio 1"\n• "Classic FM"\n• "Radio Mirchi"\n• "Radio City"\n• Or any other radio station name`,
-                          }
-                        : msg
-                )
+                prev.some((msg) => msg.id === messageId)
+                    ? prev.map((msg) => (msg.id === messageId ? { ...msg, ...patch } : msg))
+                    : [...prev, { ...createAssistantMessage(messageId, ""), ...patch }],
             );
+
+        const result = await invokeTool(tools, request, { report: (content) => showMessage({ content }) });
+        showMessage(renderToolResult(result));
+
+        return result;
+    };
+
+    const runAction = (action: AssistantAction) => (action.type === "tool_call" ? callTool(action) : runIntent(action));
+
+    // Runs the commands that aren't player tools; assistants send the others as tool calls
+    const runIntent = async (intent: Intent) => {
+        switch (intent.type) {
+            case "play_filtered": {
+                const { genre, language, country } = intent.slots;
+                const label = [language, genre, country && `stations from ${country}`].filter(Boolean).join(" ") || "stations";
+                await searchAndPlay(label, () => findStationByFilters(intent.slots), `I couldn't find any ${label} to play right now. Try another genre or language.`);
+                break;
+            }
+            case "select_candidate": {
+                const message = messages.findLast((msg) => msg.candidates);
+                const candidate = message?.candidates?.[intent.slots.index];
+                if (message && candidate) {
+                    playCandidate(message.id, candidate);
+                }
+                break;
+            }
+            case "mute":
+                volume.setMuted(intent.slots.muted);
+                addAssistantMessage(intent.slots.muted ? "Muted." : "Unmuted.");
+                break;
+            case "cancel_sleep_timer":
+                if (timers.sleep) {
+                    timers.cancelSleepTimer();
+                    addAssistantMessage("Sleep timer cancelled.");
+                } else {
+                    addAssistantMessage("There's no sleep timer set.");
+                }
+                break;
+            case "set_alarm": {
+                const station = intent.slots.station ?? currentStation ?? history[0]?.station;
+                if (station) {
+                    setAlarm(getNextOccurrence(intent.slots.hour, intent.slots.minute), station);
+                } else {
+                    addAssistantMessage('Which station should wake you up? Try "Wake me at 6:30 with Kodai FM".');
+                }
+                break;
+            }
+            case "cancel_alarm":
+                if (timers.alarm) {
+                    addAssistantMessage(timers.alarm.ringingSince !== null ? "Alarm dismissed." : "Alarm cancelled.");
+                    timers.dismissAlarm();
+                } else {
+                    addAssistantMessage("There's no alarm set.");
+                }
+                break;
+            case "snooze":
+                if (timers.alarm?.ringingSince != null) {
+                    timers.snoozeAlarm();
+                    addAssistantMessage("Snoozing. I'll try again in a few minutes.");
+                } else {
+                    addAssistantMessage("The alarm isn't ringing.");
+                }
+                break;
+            case "help":
+                addAssistantMessage(HELP_TEXT);
+                break;
+            case "clarify":
+                addAssistantMessage(
+                    intent.slots.suggestions.length > 0
+                        ? `${intent.slots.question}\n\n${intent.slots.suggestions.map((suggestion) => `• "${suggestion}"`).join("\n")}`
+                        : intent.slots.question,
+                );
+                break;
         }
+    };
+
+    const handleSend = async (text: string = inputValue) => {
+        if (!text.trim()) return;
+
+        const userMessage: ChatMessage = {
+            id: generateId(),
+            role: "user",
+            content: text,
+        };
 
+        setMessages((prev) => [...prev, userMessage]);
         setInputValue("");
+
+        const reply = await askAssistant({
+            messages: [...messages, userMessage].map(({ role, content }) => ({ role, content })),
+            player: { station: currentStation, status: player.status, track: nowPlaying.track, volume: volume.level, muted: volume.muted },
+            mode: radioMode.id,
+            candidateCount: pendingCandidates.length,
+        });
+
+        if (reply.content) addAssistantMessage(reply.content);
+
+        for (const action of reply.actions) {
+            await runAction(action);
+        }
+    };
+
+    // Remote assistants take a moment and can fail, in which case the built-in one answers instead
+    const askAssistant = async (request: AssistantRequest) => {
+        if (!assistant.isRemote) return assistant.provider.respond(request);
+
+        const thinkingId = generateId();
+        setMessages((prev) => [...prev, createAssistantMessage(thinkingId, "Thinking…")]);
+
+        try {
+            const reply = await assistant.provider.respond(request);
+            setMessages((prev) => prev.filter((msg) => msg.id !== thinkingId));
+            return reply;
+        } catch (error) {
+            console.error("Assistant request failed:", error);
+            const reason = error instanceof AssistantError ? error.message : "The assistant couldn't answer.";
+            updateMessage(thinkingId, { content: `${reason} I'll handle this one myself.` });
+            return localAssistant.respond(request);
+        }
     };
 
     const handlePromptClick = (prompt: string) => {
-        setInputValue(prompt);
-        setTimeout(() => {
-            handleSend();
-        }, 100);
+        handleSend(prompt);
     };
 
     const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -457,12 +723,64 @@ export const RadioChatBot = () => {
     };
 
     return (
-        <div className="flex h-dvh w-full flex-col bg-gray-950 dark-mode">
+        <div className="flex h-dvh w-full flex-col bg-gray-950 dark-mode lg:flex-row">
+            <ThreadSidebar
+                threads={threads.threads}
+                activeId={threads.activeId}
+                onSelect={(id) => {
+                    threads.openThread(id);
+                    setView("chat");
+                }}
+                onNew={() => {
+                    threads.startNewChat();
+                    setView("chat");
+                }}
+                onRename={threads.renameThread}
+                onDelete={threads.deleteThread}
+            />
+
             {/* Main Content - Full Width, Minimal Design */}
             <div className="flex flex-1 flex-col overflow-hidden">
+                {/* History Link */}
+                {view === "chat" && (
+                    <div className="flex items-center justify-end gap-2 px-4 pt-4">
+                        {!currentStation && <TimerBadges sleep={null} alarm={timers.alarm} now={timers.now} />}
+                        <Button size="sm" color="tertiary" iconLeading={ClockRewind} onClick={() => setView("history")}>
+                            History
+                        </Button>
+                        <Button size="sm" color="tertiary" iconLeading={Recording01} onClick={() => setView("recordings")}>
+                            Recordings
+                        </Button>
+                        <Button size="sm" color="tertiary" iconLeading={Stars02} aria-label="Assistant settings" onClick={() => setIsAssistantSettingsOpen(true)} />
+                        <Button size="sm" color="tertiary" iconLeading={Keyboard01} aria-label="Keyboard shortcuts" onClick={() => setIsShortcutsOpen(true)} />
+                    </div>
+                )}
+
                 {/* Chat Messages Area - Centered and Minimal */}
                 <div className="flex-1 overflow-y-auto px-4 py-6 scrollbar-hide">
-                    {messages.length === 0 ? (
+                    {view === "history" ? (
+                        <ListeningHistory
+                            entries={history}
+                            onPlay={playFromHistory}
+                            onDelete={(id) => setHistory((entries) => entries.filter((entry) => entry.id !== id))}
+                            onClear={() => setHistory([])}
+                            onClose={() => setView("chat")}
+                        />
+                    ) : view === "recordings" ? (
+                        <Recordings
+                            recordings={recorder.recordings}
+                            active={recorder.active}
+                            schedules={recorder.schedules}
+                            now={recorder.now}
+                            onStop={recorder.stopRecording}
+                            onDismiss={recorder.dismissRecording}
+                            onDelete={recorder.deleteRecording}
+                            onCancelSchedule={recorder.cancelScheduledRecording}
+                            onSchedule={() => setIsScheduleOpen(true)}
+                            onPlay={() => engine.pause()}
+                            onClose={() => setView("chat")}
+                        />
+                    ) : messages.length === 0 ? (
                         <div className="flex h-full flex-col items-center justify-center px-4">
                             {/* Greeting - Minimal */}
                             <div className="mb-12 text-center">
@@ -477,33 +795,33 @@ export const RadioChatBot = () => {
                                 </p>
                             </div>
 
-                            {/* Suggested Prompts - Minimal Grid */}
-                            <div className="grid w-full max-w-5xl grid-cols-1 gap-3 md:grid-cols-2">
-                                {suggestedPrompts.map((prompt) => {
-                                    const Icon = prompt.icon;
-                                    return (
-                                        <button
-                                            key={prompt.id}
-                                            onClick={() => handlePromptClick(prompt.text)}
-                                            className="group flex flex-col items-start rounded-lg border border-gray-800/50 bg-gray-900/50 p-5 text-left transition-all hover:border-gray-700/50 hover:bg-gray-800/50"
-                                            suppressHydrationWarning
-                                        >
-                                            <p className="mb-3 text-sm text-primary">{prompt.text}</p>
-                                            <Icon className="size-5 text-fg-quaternary group-hover:text-fg-tertiary" />
-                                        </button>
-                                    );
-                                })}
-                            </div>
-
-                            {/* Refresh Prompts - Minimal */}
-                            <button
-                                onClick={() => window.location.reload()}
-                                className="mt-8 flex items-center gap-2 text-xs text-tertiary hover:text-secondary"
-                                suppressHydrationWarning
-                            >
-                                <ArrowRight className="size-3 rotate-90" />
-                                <span>Refresh Prompts</span>
-                            </button>
+                            {/* Presets, or suggested prompts until the listener has saved a station */}
+                            {favorites.stations.length > 0 ? (
+                                <PresetGrid
+                                    presets={favorites.presets}
+                                    stations={favorites.stations}
+                                    onPlay={playFavorite}
+                                    onAssign={favorites.assignPreset}
+                                    onMove={favorites.movePreset}
+                                />
+                            ) : (
+                                <div className="grid w-full max-w-5xl grid-cols-1 gap-3 md:grid-cols-2">
+                                    {suggestedPrompts.map((prompt) => {
+                                        const Icon = prompt.icon;
+                                        return (
+                                            <button
+                                                key={prompt.id}
+                                                onClick={() => handlePromptClick(prompt.text)}
+                                                className="group flex flex-col items-start rounded-lg border border-gray-800/50 bg-gray-900/50 p-5 text-left transition-all hover:border-gray-700/50 hover:bg-gray-800/50"
+                                                suppressHydrationWarning
+                                            >
+                                                <p className="mb-3 text-sm text-primary">{prompt.text}</p>
+                                                <Icon className="size-5 text-fg-quaternary group-hover:text-fg-tertiary" />
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                            )}
                         </div>
                     ) : (
                         <div className="mx-auto w-full max-w-4xl space-y-4 px-4">
@@ -527,15 +845,35 @@ export const RadioChatBot = () => {
                                         )}
                                     >
                                         <p className="text-sm">{message.content}</p>
+                                        {message.attempts && <ResolveAttempts attempts={message.attempts} />}
+                                        {message.candidates && (
+                                            <StationCandidates
+                                                candidates={message.candidates}
+                                                selectedId={message.selectedCandidateId}
+                                                onSelect={(candidate) => playCandidate(message.id, candidate)}
+                                            />
+                                        )}
                                         {message.stationName && message.stationUrl && (
                                             <div className="mt-3 flex items-center gap-2 rounded-lg bg-gray-900 p-3">
                                                 <div className="flex-1">
                                                     <p className="text-sm font-medium text-primary">
                                                         {message.stationName}
                                                     </p>
-                                                    <p className="text-xs text-tertiary">Now Playing</p>
+                                                    <p className="text-xs text-tertiary">
+                                                        {currentStation !== message.stationName
+                                                            ? "Played earlier"
+                                                            : nowPlaying.track
+                                                              ? formatNowPlaying(nowPlaying.track)
+                                                              : "Now Playing"}
+                                                    </p>
                                                 </div>
-                                                {currentStation === message.stationName && (
+                                                <FavoriteButton
+                                                    isFavorite={favorites.isFavorite(message.stationName)}
+                                                    onToggle={() =>
+                                                        favorites.toggleFavorite({ name: message.stationName!, url: message.stationUrl!, hls: message.stationHls })
+                                                    }
+                                                />
+                                                {currentStation === message.stationName ? (
                                                     <button
                                                         onClick={togglePlayPause}
                                                         className="flex size-8 items-center justify-center rounded-lg bg-gray-700 text-primary hover:bg-gray-600"
@@ -547,9 +885,18 @@ export const RadioChatBot = () => {
                                                             <PlayCircle className="size-4" />
                                                         )}
                                                     </button>
+                                                ) : (
+                                                    <button
+                                                        onClick={() => replayStation(message)}
+                                                        className="flex size-8 items-center justify-center rounded-lg bg-gray-700 text-primary hover:bg-gray-600"
+                                                        aria-label={`Play ${message.stationName}`}
+                                                    >
+                                                        <PlayCircle className="size-4" />
+                                                    </button>
                                                 )}
                                             </div>
                                         )}
+                                        {message.mode && <p className="mt-2 text-xs text-quaternary">{getRadioMode(message.mode).label}</p>}
                                     </div>
                                     {message.role === "user" && (
                                         <Avatar size="sm" className="mt-1 shrink-0" />
@@ -598,7 +945,7 @@ export const RadioChatBot = () => {
                                                     >
                                                         <AnimatePresence mode="wait">
                                                             <motion.div
-                                                                key={selectedModel}
+                                                                key={radioMode.id}
                                                                 initial={{ opacity: 0, y: -5 }}
                                                                 animate={{ opacity: 1, y: 0 }}
                                                                 exit={{ opacity: 0, y: 5 }}
@@ -606,28 +953,30 @@ export const RadioChatBot = () => {
                                                                 className="flex items-center gap-1"
                                                             >
                                                                 <PlayCircle className="size-3.5" />
-                                                                {selectedModel}
+                                                                {radioMode.label}
                                                                 <ChevronDown className="size-3 opacity-50" />
                                                             </motion.div>
                                                         </AnimatePresence>
                                                     </Button>
                                                     <Dropdown.Popover>
                                                         <Dropdown.Menu
-                                                            selectedKeys={[selectedModel]}
+                                                            selectedKeys={[radioMode.id]}
                                                             onSelectionChange={(keys) => {
-                                                                const selected = Array.from(keys)[0] as string;
-                                                                if (selected) setSelectedModel(selected);
+                                                                const selected = RADIO_MODES.find((mode) => keys !== "all" && keys.has(mode.id));
+                                                                if (selected) setRadioModeId(selected.id);
                                                             }}
                                                         >
-                                                            {RADIO_MODELS.map((model) => (
+                                                            {RADIO_MODES.map((mode) => (
                                                                 <Dropdown.Item
-                                                                    key={model}
-                                                                    id={model}
-                                                                    textValue={model}
-                                                                    label={model}
+                                                                    key={mode.id}
+                                                                    id={mode.id}
+                                                                    textValue={mode.label}
                                                                     icon={PlayCircle}
-                                                                    addon={selectedModel === model ? "✓" : undefined}
-                                                                />
+                                                                    addon={radioMode.id === mode.id ? "✓" : undefined}
+                                                                >
+                                                                    <span className="block">{mode.label}</span>
+                                                                    <span className="block text-xs font-normal text-tertiary">{mode.description}</span>
+                                                                </Dropdown.Item>
                                                             ))}
                                                         </Dropdown.Menu>
                                                     </Dropdown.Popover>
@@ -649,7 +998,7 @@ export const RadioChatBot = () => {
                                             {/* Send Button */}
                                             <button
                                                 aria-label="Send message"
-                                                onClick={handleSend}
+                                                onClick={() => handleSend()}
                                                 disabled={!inputValue.trim()}
                                                 className={cx(
                                                     "rounded-lg bg-white/5 p-2 transition-colors hover:bg-white/10 focus-visible:ring-1 focus-visible:ring-brand-500 focus-visible:ring-offset-0",
@@ -671,30 +1020,71 @@ export const RadioChatBot = () => {
                             </div>
                         </div>
 
+                        {timers.alarm && timers.alarm.ringingSince !== null && (
+                            <AlarmRinging alarm={timers.alarm} onSnooze={timers.snoozeAlarm} onDismiss={timers.dismissAlarm} />
+                        )}
+
                         {/* Radio Player Controls */}
                         {currentStation && (
                             <div className="mt-4 flex items-center gap-3 rounded-lg border border-gray-800 bg-gray-800 p-3">
                                 <div className="flex-1">
                                     <p className="text-sm font-medium text-primary">{currentStation}</p>
-                                    <p className="text-xs text-tertiary">Live Radio</p>
+                                    <p className="text-xs text-tertiary">
+                                        {playerStatusText ??
+                                            (nowPlaying.track ? formatNowPlaying(nowPlaying.track) : (nowPlaying.station?.genre ?? "Live Radio"))}
+                                    </p>
                                 </div>
+                                <Visualizer output={engine.output} isPlaying={player.status === "playing"} className="max-sm:hidden" />
                                 <div className="flex items-center gap-2">
+                                    <TimerBadges sleep={timers.sleep} alarm={timers.alarm} now={timers.now} />
+                                    <TimerMenu
+                                        sleep={timers.sleep}
+                                        alarm={timers.alarm}
+                                        onSleep={timers.setSleepTimer}
+                                        onCancelSleep={timers.cancelSleepTimer}
+                                        onEditAlarm={() => setIsAlarmDialogOpen(true)}
+                                        onCancelAlarm={timers.dismissAlarm}
+                                    />
+                                    {stream && (
+                                        <EqualizerMenu
+                                            station={stream.name}
+                                            settings={equalizer.settings}
+                                            preset={equalizer.preset}
+                                            onGainChange={equalizer.setGain}
+                                            onPresetChange={equalizer.setPreset}
+                                            onNightModeChange={equalizer.setNightMode}
+                                            crossfade={crossfade.duration}
+                                            onCrossfadeChange={crossfade.setDuration}
+                                        />
+                                    )}
+                                    {stream && (
+                                        <RecordButton recordingSince={currentRecording?.startedAt ?? null} now={recorder.now} onToggle={toggleRecording} />
+                                    )}
+                                    {stream && (
+                                        <FavoriteButton
+                                            isFavorite={favorites.isFavorite(stream.name)}
+                                            onToggle={() => favorites.toggleFavorite({ name: stream.name, url: stream.url, hls: stream.kind === "hls", favicon: stream.favicon })}
+                                            className="size-9"
+                                        />
+                                    )}
                                     <button
-                                        onClick={() => {
-                                            if (audioRef.current) {
-                                                setIsMuted(!isMuted);
-                                                audioRef.current.volume = !isMuted ? volume : 0;
-                                            }
-                                        }}
+                                        onClick={() => volume.setMuted(!volume.muted)}
                                         className="flex size-9 items-center justify-center rounded-lg bg-gray-700 text-primary hover:bg-gray-600"
-                                        aria-label={isMuted ? "Unmute" : "Mute"}
+                                        aria-label={volume.muted ? "Unmute" : "Mute"}
+                                        aria-pressed={volume.muted}
                                     >
-                                        {isMuted ? (
+                                        {volume.muted ? (
                                             <VolumeMutedIcon className="size-4" />
                                         ) : (
                                             <VolumeIcon className="size-4" />
                                         )}
                                     </button>
+                                    <Slider
+                                        aria-label="Volume"
+                                        className="w-24"
+                                        value={volume.muted ? 0 : Math.round(volume.level * 100)}
+                                        onChange={(value) => volume.setLevel((Array.isArray(value) ? value[0] : value) / 100)}
+                                    />
                                     <button
                                         onClick={togglePlayPause}
                                         className="flex size-9 items-center justify-center rounded-lg bg-gray-700 text-primary hover:bg-gray-600"
@@ -712,6 +1102,35 @@ export const RadioChatBot = () => {
                     </div>
                 </div>
             </div>
+
+            <AlarmDialog
+                isOpen={isAlarmDialogOpen}
+                onOpenChange={setIsAlarmDialogOpen}
+                alarm={timers.alarm}
+                defaultStation={currentStation ?? ""}
+                onSave={setAlarm}
+            />
+            <StationSearchDialog
+                isOpen={isStationSearchOpen}
+                onOpenChange={setIsStationSearchOpen}
+                favorites={favorites.stations}
+                mode={radioMode}
+                onSelect={playSearchResult}
+            />
+            <ScheduleRecordingDialog
+                isOpen={isScheduleOpen}
+                onOpenChange={setIsScheduleOpen}
+                stations={recordableStations}
+                defaultStation={currentStation}
+                onSave={recorder.scheduleRecording}
+            />
+            <AssistantSettingsDialog
+                isOpen={isAssistantSettingsOpen}
+                onOpenChange={setIsAssistantSettingsOpen}
+                settings={assistant.settings}
+                onSave={assistant.setSettings}
+            />
+            <ShortcutsDialog isOpen={isShortcutsOpen} onOpenChange={setIsShortcutsOpen} />
         </div>
     );
 };
@@ -7,10 +7,12 @@ import { BookOpen01, ChevronSelectorVertical, LogOut01, Plus, Settings01, User01
 import { useFocusManager } from "react-aria";
 import type { DialogProps as AriaDialogProps } from "react-aria-components";
 import { Button as AriaButton, Dialog as AriaDialog, DialogTrigger as AriaDialogTrigger, Popover as AriaPopover } from "react-aria-components";
+import { useHotkeys } from "react-hotkeys-hook";
 import { AvatarLabelGroup } from "@/components/base/avatar/avatar-label-group";
 import { Button } from "@/components/base/buttons/button";
 import { RadioButtonBase } from "@/components/base/radio-buttons/radio-buttons";
 import { useBreakpoint } from "@/hooks/use-breakpoint";
+import { useFormatShortcut } from "@/hooks/use-format-shortcut";
 import { cx } from "@/utils/cx";
 
 type NavAccountType = {
@@ -86,8 +88,8 @@ export const NavAccountMenu = ({
         >
             <div className="rounded-xl bg-primary ring-1 ring-secondary">
                 <div className="flex flex-col gap-0.5 py-1.5">
-                    <NavAccountCardMenuItem label="View profile" icon={User01} shortcut="⌘K->P" />
-                    <NavAccountCardMenuItem label="Account settings" icon={Settings01} shortcut="⌘S" />
+                    <NavAccountCardMenuItem label="View profile" icon={User01} hotkey="g>p" />
+                    <NavAccountCardMenuItem label="Account settings" icon={Settings01} hotkey="mod+s" />
                     <NavAccountCardMenuItem label="Documentation" icon={BookOpen01} />
                 </div>
                 <div className="flex flex-col gap-0.5 border-t border-secondary py-1.5">
@@ -117,7 +119,7 @@ export const NavAccountMenu = ({
             </div>
 
             <div className="pt-1 pb-1.5">
-                <NavAccountCardMenuItem label="Sign out" icon={LogOut01} shortcut="⌥⇧Q" />
+                <NavAccountCardMenuItem label="Sign out" icon={LogOut01} hotkey="alt+shift+q" />
             </div>
         </AriaDialog>
     );
@@ -127,14 +129,25 @@ const NavAccountCardMenuItem = ({
     icon: Icon,
     label,
     shortcut,
+    hotkey,
     ...buttonProps
 }: {
     icon?: FC<{ className?: string }>;
     label: string;
+    /** Keyboard shortcut to display. Defaults to the formatted `hotkey`. */
     shortcut?: string;
+    /** Hotkey in react-hotkeys-hook syntax that presses the item while the menu is open. */
+    hotkey?: string;
 } & HTMLAttributes<HTMLButtonElement>) => {
+    const buttonRef = useRef<HTMLButtonElement>(null);
+    const formatShortcut = useFormatShortcut();
+
+    useHotkeys(hotkey ?? "", () => buttonRef.current?.click(), { enabled: Boolean(hotkey), preventDefault: true, description: label });
+
+    const shortcutLabel = shortcut ?? (hotkey && formatShortcut(hotkey));
+
     return (
-        <button {...buttonProps} className={cx("group/item w-full cursor-pointer px-1.5 focus:outline-hidden", buttonProps.className)}>
+        <button {...buttonProps} ref={buttonRef} className={cx("group/item w-full cursor-pointer px-1.5 focus:outline-hidden", buttonProps.className)}>
             <div
                 className={cx(
                     "flex w-full items-center justify-between gap-3 rounded-md p-2 group-hover/item:bg-primary_hover",
@@ -146,8 +159,8 @@ const NavAccountCardMenuItem = ({
                     {Icon && <Icon className="size-5 text-fg-quaternary" />} {label}
                 </div>
 
-                {shortcut && (
-                    <kbd className="flex rounded px-1 py-px font-body text-xs font-medium text-tertiary ring-1 ring-secondary ring-inset">{shortcut}</kbd>
+                {shortcutLabel && (
+                    <kbd className="flex rounded px-1 py-px font-body text-xs font-medium text-tertiary ring-1 ring-secondary ring-inset">{shortcutLabel}</kbd>
                 )}
             </div>
         </button>
@@ -7,6 +7,7 @@ import { Avatar } from "@/components/base/avatar/avatar";
 import { BadgeWithDot } from "@/components/base/badges/badges";
 import { Input } from "@/components/base/input/input";
 import { UntitledLogo } from "@/components/foundations/logo/untitledui-logo";
+import { useSearchShortcut } from "@/hooks/use-search-shortcut";
 import { cx } from "@/utils/cx";
 import { MobileNavigationHeader } from "./base-components/mobile-header";
 import { NavAccountCard, NavAccountMenu } from "./base-components/nav-account-card";
@@ -42,6 +43,11 @@ interface HeaderNavigationBaseProps {
     showAvatarDropdown?: boolean;
     /** Whether to hide the bottom border. */
     hideBorder?: boolean;
+    /**
+     * Hotkey that focuses the search input, or false to not bind one.
+     * @default "mod+k"
+     */
+    searchShortcut?: string | false;
 }
 
 export const HeaderNavigationBase = ({
@@ -51,7 +57,9 @@ export const HeaderNavigationBase = ({
     trailingContent,
     showAvatarDropdown = true,
     hideBorder = false,
+    searchShortcut = "mod+k",
 }: HeaderNavigationBaseProps) => {
+    const search = useSearchShortcut(searchShortcut);
     const activeSubNavItems = subItems || items.find((item) => item.current && item.items && item.items.length > 0)?.items;
 
     const showSecondaryNav = activeSubNavItems && activeSubNavItems.length > 0;
@@ -62,7 +70,7 @@ export const HeaderNavigationBase = ({
                 <aside className="flex h-full max-w-full flex-col justify-between overflow-auto border-r border-secondary bg-primary pt-4 lg:pt-6">
                     <div className="flex flex-col gap-5 px-4 lg:px-5">
                         <UntitledLogo className="h-8" />
-                        <Input shortcut size="sm" aria-label="Search" placeholder="Search" icon={SearchLg} />
+                        <Input ref={search.ref} shortcut={search.shortcut} size="sm" aria-label="Search" placeholder="Search" icon={SearchLg} />
                     </div>
 
                     <NavList items={items} />
@@ -194,7 +202,15 @@ export const HeaderNavigationBase = ({
                                 </ul>
                             </nav>
 
-                            <Input shortcut aria-label="Search" placeholder="Search" icon={SearchLg} size="sm" className="max-w-xs" />
+                            <Input
+                                ref={search.ref}
+                                shortcut={search.shortcut}
+                                aria-label="Search"
+                                placeholder="Search"
+                                icon={SearchLg}
+                                size="sm"
+                                className="max-w-xs"
+                            />
                         </div>
                     </section>
                 )}
@@ -4,6 +4,7 @@ import type { ReactNode } from "react";
 import { SearchLg } from "@untitledui/icons";
 import { Input } from "@/components/base/input/input";
 import { UntitledLogo } from "@/components/foundations/logo/untitledui-logo";
+import { useSearchShortcut } from "@/hooks/use-search-shortcut";
 import { cx } from "@/utils/cx";
 import { MobileNavigationHeader } from "../base-components/mobile-header";
 import { NavAccountCard } from "../base-components/nav-account-card";
@@ -26,6 +27,17 @@ interface SidebarNavigationProps {
     hideBorder?: boolean;
     /** Additional CSS classes to apply to the sidebar. */
     className?: string;
+    /** Value of the search input, to control it. */
+    searchValue?: string;
+    /** Handler for changes of the search input. */
+    onSearchChange?: (value: string) => void;
+    /**
+     * Hotkey that focuses the search input, or false to not bind one.
+     * @default "mod+k"
+     */
+    searchShortcut?: string | false;
+    /** Content to display below the nav items. */
+    children?: ReactNode;
 }
 
 export const SidebarNavigationSimple = ({
@@ -36,8 +48,13 @@ export const SidebarNavigationSimple = ({
     showAccountCard = true,
     hideBorder = false,
     className,
+    searchValue,
+    onSearchChange,
+    searchShortcut = "mod+k",
+    children,
 }: SidebarNavigationProps) => {
     const MAIN_SIDEBAR_WIDTH = 296;
+    const search = useSearchShortcut(searchShortcut);
 
     const content = (
         <aside
@@ -54,11 +71,22 @@ export const SidebarNavigationSimple = ({
         >
             <div className="flex flex-col gap-5 px-4 lg:px-5">
                 <UntitledLogo className="h-8" />
-                <Input shortcut size="sm" aria-label="Search" placeholder="Search" icon={SearchLg} />
+                <Input
+                    ref={search.ref}
+                    shortcut={search.shortcut}
+                    size="sm"
+                    aria-label="Search"
+                    placeholder="Search"
+                    icon={SearchLg}
+                    value={searchValue}
+                    onChange={onSearchChange}
+                />
             </div>
 
             <NavList activeUrl={activeUrl} items={items} />
 
+            {children}
+
             <div className="mt-auto flex flex-col gap-4 px-2 py-4 lg:px-4 lg:py-6">
                 {footerItems.length > 0 && (
                     <ul className="flex flex-col">
@@ -23,6 +23,8 @@ interface SliderProps extends AriaSliderProps {
 }
 
 export const Slider = ({ labelPosition = "default", minValue = 0, maxValue = 100, labelFormatter, formatOptions, ...rest }: SliderProps) => {
+    const isVertical = rest.orientation === "vertical";
+
     // Format thumb value as percentage by default.
     const defaultFormatOptions: Intl.NumberFormatOptions = {
         style: "percent",
@@ -32,20 +34,32 @@ export const Slider = ({ labelPosition = "default", minValue = 0, maxValue = 100
     return (
         <AriaSlider {...rest} {...{ minValue, maxValue }} formatOptions={formatOptions ?? defaultFormatOptions}>
             <AriaLabel />
-            <AriaSliderTrack className="relative h-6 w-full">
+            <AriaSliderTrack className={cx("relative", isVertical ? "h-full w-6" : "h-6 w-full")}>
                 {({ state: { values, getThumbValue, getThumbPercent, getFormattedValue } }) => {
                     const left = values.length === 1 ? 0 : getThumbPercent(0);
                     const width = values.length === 1 ? getThumbPercent(0) : getThumbPercent(1) - left;
 
                     return (
                         <>
-                            <span className="absolute top-1/2 h-2 w-full -translate-y-1/2 rounded-full bg-quaternary" />
                             <span
-                                className="absolute top-1/2 h-2 w-full -translate-y-1/2 rounded-full bg-brand-solid"
-                                style={{
-                                    left: `${left * 100}%`,
-                                    width: `${width * 100}%`,
-                                }}
+                                className={cx(
+                                    "absolute rounded-full bg-quaternary",
+                                    isVertical ? "left-1/2 h-full w-2 -translate-x-1/2" : "top-1/2 h-2 w-full -translate-y-1/2",
+                                )}
+                            />
+                            <span
+                                className={cx(
+                                    "absolute rounded-full bg-brand-solid",
+                                    isVertical ? "left-1/2 h-full w-2 -translate-x-1/2" : "top-1/2 h-2 w-full -translate-y-1/2",
+                                )}
+                                style={
+                                    isVertical
+                                        ? { bottom: `${left * 100}%`, height: `${width * 100}%` }
+                                        : {
+                                              left: `${left * 100}%`,
+                                              width: `${width * 100}%`,
+                                          }
+                                }
                             />
                             {values.map((_, index) => {
                                 return (
@@ -54,7 +68,8 @@ export const Slider = ({ labelPosition = "default", minValue = 0, maxValue = 100
                                         index={index}
                                         className={({ isFocusVisible, isDragging }) =>
                                             cx(
-                                                "top-1/2 box-border size-6 cursor-grab rounded-full bg-slider-handle-bg shadow-md ring-2 ring-slider-handle-border ring-inset",
+                                                isVertical ? "left-1/2" : "top-1/2",
+                                                "box-border size-6 cursor-grab rounded-full bg-slider-handle-bg shadow-md ring-2 ring-slider-handle-border ring-inset",
                                                 isFocusVisible && "outline-2 outline-offset-2 outline-focus-ring",
                                                 isDragging && "cursor-grabbing",
                                             )
@@ -0,0 +1,115 @@
+"use client";
+
+import { useState } from "react";
+import type { CalendarDate, Time } from "@internationalized/date";
+import { fromDate, getLocalTimeZone, toCalendarDate, toCalendarDateTime, toTime, today } from "@internationalized/date";
+import { AlarmClock } from "@untitledui/icons";
+import { Heading as AriaHeading, TimeField as AriaTimeField } from "react-aria-components";
+import { DateInput } from "@/components/application/date-picker/date-input";
+import { DatePicker } from "@/components/application/date-picker/date-picker";
+import { Dialog, Modal, ModalOverlay } from "@/components/application/modals/modal";
+import { Button } from "@/components/base/buttons/button";
+import { Input } from "@/components/base/input/input";
+import { Label } from "@/components/base/input/label";
+import { FeaturedIcon } from "@/components/foundations/featured-icon/featured-icon";
+import type { Alarm } from "@/lib/radio/timers";
+import { getNextOccurrence } from "@/lib/radio/timers";
+
+/** The time a new alarm is suggested for. */
+const DEFAULT_HOUR = 7;
+
+interface AlarmFormProps {
+    alarm: Alarm | null;
+    defaultStation: string;
+    onSave: (at: number, station: string) => void;
+    onClose: () => void;
+}
+
+const AlarmForm = ({ alarm, defaultStation, onSave, onClose }: AlarmFormProps) => {
+    const initial = fromDate(new Date(alarm?.at ?? getNextOccurrence(DEFAULT_HOUR, 0)), getLocalTimeZone());
+    const [date, setDate] = useState<CalendarDate | null>(() => toCalendarDate(initial));
+    const [time, setTime] = useState<Time | null>(() => toTime(initial));
+    const [station, setStation] = useState(alarm?.station ?? defaultStation);
+
+    const at = date && time ? toCalendarDateTime(date, time).toDate(getLocalTimeZone()).getTime() : null;
+    const isInPast = at !== null && at <= Date.now();
+
+    return (
+        <form
+            className="flex w-full flex-col gap-5"
+            onSubmit={(event) => {
+                event.preventDefault();
+                if (at === null || isInPast || !station.trim()) return;
+
+                onSave(at, station.trim());
+                onClose();
+            }}
+        >
+            <div className="flex gap-4">
+                <FeaturedIcon icon={AlarmClock} color="brand" theme="light" size="lg" />
+                <div>
+                    <AriaHeading slot="title" className="text-lg font-semibold text-primary">
+                        Wake-up alarm
+                    </AriaHeading>
+                    <p className="text-sm text-tertiary">The station starts quietly and gets louder over a minute. Keep this tab open.</p>
+                </div>
+            </div>
+
+            <div className="flex flex-wrap items-end gap-3">
+                <AriaTimeField value={time} onChange={setTime} className="flex flex-col gap-1.5">
+                    <Label>Time</Label>
+                    <DateInput />
+                </AriaTimeField>
+                <div className="flex flex-col gap-1.5">
+                    <span className="text-sm font-medium text-secondary">Day</span>
+                    <DatePicker
+                        aria-label="Day"
+                        value={date}
+                        onChange={(value) => setDate(value as CalendarDate | null)}
+                        minValue={today(getLocalTimeZone())}
+                    />
+                </div>
+            </div>
+
+            <Input label="Station" placeholder="e.g. Kodai FM" value={station} onChange={setStation} isRequired />
+
+            {isInPast && <p className="text-sm text-error-primary">That time has already passed.</p>}
+
+            <div className="grid grid-cols-2 gap-3">
+                <Button size="md" color="secondary" onClick={onClose}>
+                    Cancel
+                </Button>
+                <Button size="md" color="primary" type="submit" isDisabled={at === null || isInPast || !station.trim()}>
+                    {alarm ? "Update alarm" : "Set alarm"}
+                </Button>
+            </div>
+        </form>
+    );
+};
+
+interface AlarmDialogProps {
+    isOpen: boolean;
+    onOpenChange: (isOpen: boolean) => void;
+    /** The alarm to change, or null to set a new one. */
+    alarm: Alarm | null;
+    /** The station suggested for a new alarm, e.g. the one playing. */
+    defaultStation: string;
+    onSave: (at: number, station: string) => void;
+}
+
+/**
+ * Sets the time and station of the wake-up alarm.
+ */
+export const AlarmDialog = ({ isOpen, onOpenChange, alarm, defaultStation, onSave }: AlarmDialogProps) => {
+    return (
+        <ModalOverlay isDismissable isOpen={isOpen} onOpenChange={onOpenChange}>
+            <Modal className="max-w-md">
+                <Dialog>
+                    <div className="w-full rounded-2xl bg-primary p-6 shadow-xl ring ring-secondary_alt">
+                        <AlarmForm alarm={alarm} defaultStation={defaultStation} onSave={onSave} onClose={() => onOpenChange(false)} />
+                    </div>
+                </Dialog>
+            </Modal>
+        </ModalOverlay>
+    );
+};
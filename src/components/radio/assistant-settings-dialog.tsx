@@ -0,0 +1,110 @@
+"use client";
+
+import { useState } from "react";
+import { Stars02 } from "@untitledui/icons";
+import { Heading as AriaHeading } from "react-aria-components";
+import { Dialog, Modal, ModalOverlay } from "@/components/application/modals/modal";
+import { Button } from "@/components/base/buttons/button";
+import { Input } from "@/components/base/input/input";
+import { RadioButton, RadioGroup } from "@/components/base/radio-buttons/radio-buttons";
+import { FeaturedIcon } from "@/components/foundations/featured-icon/featured-icon";
+import type { AssistantProviderId, AssistantSettings } from "@/lib/radio/assistant";
+import { ASSISTANT_PROVIDERS } from "@/lib/radio/assistant";
+
+interface AssistantSettingsFormProps {
+    settings: AssistantSettings;
+    onSave: (settings: AssistantSettings) => void;
+    onClose: () => void;
+}
+
+const AssistantSettingsForm = ({ settings, onSave, onClose }: AssistantSettingsFormProps) => {
+    const [draft, setDraft] = useState(settings);
+    const isRemote = draft.provider !== "local";
+    const isValid = !isRemote || (URL.canParse(draft.baseUrl.trim()) && draft.model.trim() !== "");
+
+    const update = (changes: Partial<AssistantSettings>) => setDraft((current) => ({ ...current, ...changes }));
+
+    return (
+        <form
+            className="flex w-full flex-col gap-5"
+            onSubmit={(event) => {
+                event.preventDefault();
+                if (!isValid) return;
+
+                onSave({ ...draft, baseUrl: draft.baseUrl.trim(), apiKey: draft.apiKey.trim(), model: draft.model.trim() });
+                onClose();
+            }}
+        >
+            <div className="flex gap-4">
+                <FeaturedIcon icon={Stars02} color="brand" theme="light" size="lg" />
+                <div>
+                    <AriaHeading slot="title" className="text-lg font-semibold text-primary">
+                        Assistant
+                    </AriaHeading>
+                    <p className="text-sm text-tertiary">Choose what answers your messages. Either one can play stations for you.</p>
+                </div>
+            </div>
+
+            <RadioGroup aria-label="Assistant" value={draft.provider} onChange={(value) => update({ provider: value as AssistantProviderId })}>
+                {ASSISTANT_PROVIDERS.map(({ id, label, description }) => (
+                    <RadioButton key={id} value={id} label={label} hint={description} />
+                ))}
+            </RadioGroup>
+
+            {isRemote && (
+                <div className="flex flex-col gap-4">
+                    <Input
+                        label="Base URL"
+                        placeholder="http://localhost:11434/v1"
+                        hint="Requests go to its /chat/completions endpoint."
+                        value={draft.baseUrl}
+                        onChange={(baseUrl) => update({ baseUrl })}
+                        isRequired
+                    />
+                    <Input label="Model" placeholder="e.g. llama3.2" value={draft.model} onChange={(model) => update({ model })} isRequired />
+                    <Input
+                        label="API key"
+                        type="password"
+                        hint="Optional. It's saved in this browser and only sent to the URL above."
+                        value={draft.apiKey}
+                        onChange={(apiKey) => update({ apiKey })}
+                    />
+                </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+                <Button size="md" color="secondary" onClick={onClose}>
+                    Cancel
+                </Button>
+                <Button size="md" color="primary" type="submit" isDisabled={!isValid}>
+                    Save
+                </Button>
+            </div>
+        </form>
+    );
+};
+
+interface AssistantSettingsDialogProps {
+    isOpen: boolean;
+    onOpenChange: (isOpen: boolean) => void;
+    settings: AssistantSettings;
+    onSave: (settings: AssistantSettings) => void;
+}
+
+/**
+ * Picks the built-in assistant or an OpenAI-compatible server, and configures
+ * the server.
+ */
+export const AssistantSettingsDialog = ({ isOpen, onOpenChange, settings, onSave }: AssistantSettingsDialogProps) => {
+    return (
+        <ModalOverlay isDismissable isOpen={isOpen} onOpenChange={onOpenChange}>
+            <Modal className="max-w-md">
+                <Dialog>
+                    <div className="w-full rounded-2xl bg-primary p-6 shadow-xl ring ring-secondary_alt">
+                        <AssistantSettingsForm settings={settings} onSave={onSave} onClose={() => onOpenChange(false)} />
+                    </div>
+                </Dialog>
+            </Modal>
+        </ModalOverlay>
+    );
+};
@@ -0,0 +1,145 @@
+"use client";
+
+import { Sliders01 } from "@untitledui/icons";
+import {
+    Button as AriaButton,
+    Dialog as AriaDialog,
+    DialogTrigger as AriaDialogTrigger,
+    Heading as AriaHeading,
+    Popover as AriaPopover,
+} from "react-aria-components";
+import { ButtonGroup, ButtonGroupItem } from "@/components/base/button-group/button-group";
+import { Slider } from "@/components/base/slider/slider";
+import { Toggle } from "@/components/base/toggle/toggle";
+import { MAX_CROSSFADE_DURATION } from "@/lib/radio/crossfade";
+import type { EqualizerPresetId, EqualizerSettings } from "@/lib/radio/equalizer";
+import { EQUALIZER_PRESETS, EQ_BANDS, EQ_RANGE } from "@/lib/radio/equalizer";
+import { cx } from "@/utils/cx";
+
+const formatGain = (gain: number) => `${gain > 0 ? "+" : ""}${gain} dB`;
+
+const formatCrossfade = (duration: number) => (duration === 0 ? "Off" : `${duration / 1000} s`);
+
+interface EqualizerMenuProps {
+    station: string;
+    settings: EqualizerSettings;
+    /** The preset the bands match, or null if they were edited by hand. */
+    preset: EqualizerPresetId | null;
+    onGainChange: (band: number, gain: number) => void;
+    onPresetChange: (preset: EqualizerPresetId) => void;
+    onNightModeChange: (nightMode: boolean) => void;
+    /** How long switching stations crossfades, in milliseconds. */
+    crossfade: number;
+    onCrossfadeChange: (duration: number) => void;
+}
+
+/**
+ * The player bar popover with the equalizer and night mode, which are saved
+ * for the playing station, and the crossfade between stations.
+ */
+export const EqualizerMenu = ({
+    station,
+    settings,
+    preset,
+    onGainChange,
+    onPresetChange,
+    onNightModeChange,
+    crossfade,
+    onCrossfadeChange,
+}: EqualizerMenuProps) => {
+    const isTuned = preset !== "flat" || settings.nightMode;
+
+    return (
+        <AriaDialogTrigger>
+            <AriaButton
+                aria-label="Equalizer"
+                className={cx(
+                    "relative flex size-9 cursor-pointer items-center justify-center rounded-lg bg-gray-700 text-primary outline-focus-ring hover:bg-gray-600 focus-visible:outline-2 focus-visible:outline-offset-2",
+                    isTuned && "text-fg-brand-secondary",
+                )}
+            >
+                <Sliders01 className="size-4" />
+            </AriaButton>
+            <AriaPopover
+                placement="top end"
+                offset={8}
+                className={({ isEntering, isExiting }) =>
+                    cx(
+                        "origin-(--trigger-anchor-point) will-change-transform",
+                        isEntering && "duration-150 ease-out animate-in fade-in placement-top:slide-in-from-bottom-0.5 placement-bottom:slide-in-from-top-0.5",
+                        isExiting && "duration-100 ease-in animate-out fade-out placement-top:slide-out-to-bottom-0.5 placement-bottom:slide-out-to-top-0.5",
+                    )
+                }
+            >
+                <AriaDialog className="flex w-80 flex-col gap-4 rounded-xl bg-primary p-4 shadow-lg ring-1 ring-secondary_alt outline-hidden">
+                    <div>
+                        <AriaHeading slot="title" className="text-sm font-semibold text-primary">
+                            Sound
+                        </AriaHeading>
+                        <p className="truncate text-sm text-tertiary">Saved for {station}</p>
+                    </div>
+
+                    <ButtonGroup
+                        size="sm"
+                        aria-label="Preset"
+                        disallowEmptySelection
+                        selectedKeys={preset ? [preset] : []}
+                        onSelectionChange={(keys) => {
+                            const [key] = keys;
+                            if (key) onPresetChange(key as EqualizerPresetId);
+                        }}
+                    >
+                        {EQUALIZER_PRESETS.map(({ id, label }) => (
+                            <ButtonGroupItem key={id} id={id} className="whitespace-nowrap">
+                                {label}
+                            </ButtonGroupItem>
+                        ))}
+                    </ButtonGroup>
+
+                    <div className="flex justify-between px-1">
+                        {EQ_BANDS.map((band, index) => (
+                            <div key={band.frequency} className="flex flex-col items-center gap-2">
+                                <span className="text-xs text-tertiary tabular-nums">{formatGain(settings.gains[index])}</span>
+                                <Slider
+                                    aria-label={`${band.label} Hz`}
+                                    orientation="vertical"
+                                    className="h-32"
+                                    minValue={-EQ_RANGE}
+                                    maxValue={EQ_RANGE}
+                                    value={settings.gains[index]}
+                                    formatOptions={{ signDisplay: "exceptZero" }}
+                                    onChange={(value) => onGainChange(index, Array.isArray(value) ? value[0] : value)}
+                                />
+                                <span className="text-xs font-medium text-secondary">{band.label}</span>
+                            </div>
+                        ))}
+                    </div>
+
+                    <Toggle
+                        size="sm"
+                        label="Night mode"
+                        hint="Evens out loud and quiet passages."
+                        isSelected={settings.nightMode}
+                        onChange={onNightModeChange}
+                    />
+
+                    <div className="flex flex-col gap-1 border-t border-secondary pt-4">
+                        <div className="flex justify-between text-sm">
+                            <span className="font-medium text-secondary">Crossfade between stations</span>
+                            <span className="text-tertiary tabular-nums">{formatCrossfade(crossfade)}</span>
+                        </div>
+                        <Slider
+                            aria-label="Crossfade between stations"
+                            minValue={0}
+                            maxValue={MAX_CROSSFADE_DURATION}
+                            step={500}
+                            value={crossfade}
+                            formatOptions={{ style: "unit", unit: "millisecond" }}
+                            onChange={(value) => onCrossfadeChange(Array.isArray(value) ? value[0] : value)}
+                        />
+                    </div>
+                </AriaDialog>
+            </AriaPopover>
+        </AriaDialogTrigger>
+    );
+};
@@ -0,0 +1,27 @@
+"use client";
+
+import { Star01 } from "@untitledui/icons";
+import { cx } from "@/utils/cx";
+
+interface FavoriteButtonProps {
+    isFavorite: boolean;
+    onToggle: () => void;
+    className?: string;
+}
+
+/**
+ * A star that saves a station to, or removes it from, the favorites.
+ */
+export const FavoriteButton = ({ isFavorite, onToggle, className }: FavoriteButtonProps) => {
+    return (
+        <button
+            type="button"
+            onClick={onToggle}
+            aria-pressed={isFavorite}
+            aria-label={isFavorite ? "Remove from favorites" : "Add to favorites"}
+            className={cx("flex size-8 items-center justify-center rounded-lg bg-gray-700 text-primary hover:bg-gray-600", className)}
+        >
+            <Star01 className={cx("size-4", isFavorite && "fill-warning-400 text-warning-400")} />
+        </button>
+    );
+};
@@ -0,0 +1,165 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { ArrowLeft, Copy01, Download01, PlayCircle, Trash01 } from "@untitledui/icons";
+import type { Key, SortDescriptor } from "react-aria-components";
+import { PaginationCardDefault } from "@/components/application/pagination/pagination";
+import { Table, TableCard } from "@/components/application/table/table";
+import { Badge } from "@/components/base/badges/badges";
+import { Button } from "@/components/base/buttons/button";
+import { Dropdown } from "@/components/base/dropdown/dropdown";
+import { Select } from "@/components/base/select/select";
+import { useClipboard } from "@/hooks/use-clipboard";
+import type { HistoryEntry } from "@/lib/radio/history";
+import { formatDuration, historyToCsv } from "@/lib/radio/history";
+import { fromProxyUrl, isProxyUrl } from "@/lib/radio/proxy";
+import { downloadBlob } from "@/utils/download-blob";
+
+const PAGE_SIZE = 10;
+
+const ALL_STATIONS = "all";
+
+const dateFormat = new Intl.DateTimeFormat(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+const downloadCsv = (entries: HistoryEntry[]) =>
+    downloadBlob(new Blob([historyToCsv(entries)], { type: "text/csv;charset=utf-8" }), `listening-history-${new Date().toISOString().slice(0, 10)}.csv`);
+
+interface HistoryRowActionsProps {
+    entry: HistoryEntry;
+    onPlay: () => void;
+    onDelete: () => void;
+}
+
+const HistoryRowActions = ({ entry, onPlay, onDelete }: HistoryRowActionsProps) => {
+    const { copy } = useClipboard();
+
+    return (
+        <Dropdown.Root>
+            <Dropdown.DotsButton />
+
+            <Dropdown.Popover className="w-min">
+                <Dropdown.Menu
+                    selectionMode="none"
+                    disabledKeys={entry.url ? [] : ["copy"]}
+                    onAction={(key: Key) => {
+                        if (key === "play") onPlay();
+                        if (key === "copy" && entry.url) copy(fromProxyUrl(entry.url));
+                        if (key === "delete") onDelete();
+                    }}
+                >
+                    <Dropdown.Item id="play" icon={PlayCircle}>
+                        <span className="pr-4">Play again</span>
+                    </Dropdown.Item>
+                    <Dropdown.Item id="copy" icon={Copy01}>
+                        <span className="pr-4">Copy stream URL</span>
+                    </Dropdown.Item>
+                    <Dropdown.Item id="delete" icon={Trash01}>
+                        <span className="pr-4">Delete</span>
+                    </Dropdown.Item>
+                </Dropdown.Menu>
+            </Dropdown.Popover>
+        </Dropdown.Root>
+    );
+};
+
+interface ListeningHistoryProps {
+    /** Every playback session, newest first. */
+    entries: HistoryEntry[];
+    onPlay: (entry: HistoryEntry) => void;
+    onDelete: (id: string) => void;
+    onClear: () => void;
+    onClose: () => void;
+}
+
+/**
+ * A sortable, filterable table of every station that was played.
+ */
+export const ListeningHistory = ({ entries, onPlay, onDelete, onClear, onClose }: ListeningHistoryProps) => {
+    const [sortDescriptor, setSortDescriptor] = useState<SortDescriptor>({ column: "startedAt", direction: "descending" });
+    const [station, setStation] = useState<string>(ALL_STATIONS);
+    const [page, setPage] = useState(1);
+
+    const stations = useMemo(() => [...new Set(entries.map((entry) => entry.station))].sort((a, b) => a.localeCompare(b)), [entries]);
+
+    const filtered = useMemo(() => {
+        const column = sortDescriptor.column === "duration" ? "duration" : "startedAt";
+        const direction = sortDescriptor.direction === "ascending" ? 1 : -1;
+
+        return entries.filter((entry) => station === ALL_STATIONS || entry.station === station).sort((a, b) => (a[column] - b[column]) * direction);
+    }, [entries, station, sortDescriptor]);
+
+    const totalPages = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE));
+    const currentPage = Math.min(page, totalPages);
+    const pageEntries = filtered.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE);
+
+    return (
+        <TableCard.Root className="mx-auto w-full max-w-5xl">
+            <TableCard.Header
+                title="Listening history"
+                badge={`${entries.length} ${entries.length === 1 ? "session" : "sessions"}`}
+                description="Every station you played, with how long you listened."
+                contentTrailing={
+                    <div className="flex flex-wrap items-center gap-3">
+                        <Select
+                            aria-label="Filter by station"
+                            className="w-48"
+                            selectedKey={station}
+                            onSelectionChange={(key) => {
+                                setStation(String(key ?? ALL_STATIONS));
+                                setPage(1);
+                            }}
+                            items={[{ id: ALL_STATIONS, label: "All stations" }, ...stations.map((name) => ({ id: name, label: name }))]}
+                        >
+                            {(item) => <Select.Item id={item.id} label={item.label} />}
+                        </Select>
+                        <Button color="secondary" size="sm" iconLeading={Download01} isDisabled={filtered.length === 0} onClick={() => downloadCsv(filtered)}>
+                            Export
+                        </Button>
+                        <Button color="secondary-destructive" size="sm" iconLeading={Trash01} isDisabled={entries.length === 0} onClick={onClear}>
+                            Clear
+                        </Button>
+                        <Button color="tertiary" size="sm" iconLeading={ArrowLeft} onClick={onClose}>
+                            Back to chat
+                        </Button>
+                    </div>
+                }
+            />
+
+            <Table aria-label="Listening history" sortDescriptor={sortDescriptor} onSortChange={setSortDescriptor}>
+                <Table.Header>
+                    <Table.Head id="station" label="Station" isRowHeader />
+                    <Table.Head id="startedAt" label="Date" allowsSorting />
+                    <Table.Head id="duration" label="Duration" allowsSorting />
+                    <Table.Head id="outcome" label="Outcome" />
+                    <Table.Head id="url" label="Stream" />
+                    <Table.Head id="actions" />
+                </Table.Header>
+
+                <Table.Body items={pageEntries} renderEmptyState={() => <p className="py-10 text-center text-sm text-tertiary">Nothing played yet.</p>}>
+                    {(entry) => (
+                        <Table.Row id={entry.id}>
+                            <Table.Cell className="font-medium text-primary">{entry.station}</Table.Cell>
+                            <Table.Cell className="whitespace-nowrap">{dateFormat.format(entry.startedAt)}</Table.Cell>
+                            <Table.Cell>{formatDuration(entry.duration)}</Table.Cell>
+                            <Table.Cell>
+                                <Badge type="pill-color" color={entry.outcome === "played" ? "success" : "error"} size="sm">
+                                    {entry.outcome === "played" ? "Played" : "Failed"}
+                                </Badge>
+                            </Table.Cell>
+                            <Table.Cell className="max-w-64 truncate" title={entry.url ? fromProxyUrl(entry.url) : undefined}>
+                                {entry.url ? `${fromProxyUrl(entry.url)}${isProxyUrl(entry.url) ? " (via proxy)" : ""}` : "—"}
+                            </Table.Cell>
+                            <Table.Cell className="px-4">
+                                <div className="flex justify-end">
+                                    <HistoryRowActions entry={entry} onPlay={() => onPlay(entry)} onDelete={() => onDelete(entry.id)} />
+                                </div>
+                            </Table.Cell>
+                        </Table.Row>
+                    )}
+                </Table.Body>
+            </Table>
+
+            {totalPages > 1 && <PaginationCardDefault page={currentPage} total={totalPages} onPageChange={setPage} />}
+        </TableCard.Root>
+    );
+};
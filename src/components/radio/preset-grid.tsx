@@ -0,0 +1,102 @@
+"use client";
+
+import { ArrowLeft, ArrowRight, Plus, Trash01 } from "@untitledui/icons";
+import type { Key } from "react-aria-components";
+import { Button as AriaButton } from "react-aria-components";
+import { Dropdown } from "@/components/base/dropdown/dropdown";
+import type { FavoriteStation } from "@/lib/radio/favorites";
+
+interface PresetGridProps {
+    /** The station in every preset slot, or null for an empty slot. */
+    presets: (FavoriteStation | null)[];
+    /** Every favorite, to fill empty slots from. */
+    stations: FavoriteStation[];
+    onPlay: (station: FavoriteStation) => void;
+    onAssign: (slot: number, id: string | null) => void;
+    onMove: (from: number, to: number) => void;
+}
+
+/**
+ * The numbered preset slots, shown when a chat is empty. Presets play with a
+ * click or their number key and can be reordered from their menu.
+ */
+export const PresetGrid = ({ presets, stations, onPlay, onAssign, onMove }: PresetGridProps) => {
+    const unassigned = stations.filter((station) => !presets.some((preset) => preset?.id === station.id));
+
+    return (
+        <div className="grid w-full max-w-5xl grid-cols-1 gap-3 md:grid-cols-3">
+            {presets.map((station, slot) => {
+                const number = slot + 1;
+
+                if (!station) {
+                    return (
+                        <div
+                            key={`empty-${slot}`}
+                            className="flex items-center justify-between gap-3 rounded-lg border border-dashed border-gray-800/50 p-5 text-left"
+                        >
+                            <div>
+                                <p className="text-xs text-quaternary">Preset {number}</p>
+                                <p className="text-sm text-tertiary">{unassigned.length > 0 ? "Empty" : "Star a station to save it here"}</p>
+                            </div>
+                            {unassigned.length > 0 && (
+                                <Dropdown.Root>
+                                    <AriaButton
+                                        aria-label={`Assign preset ${number}`}
+                                        className="cursor-pointer rounded-md p-1 text-fg-quaternary outline-focus-ring hover:text-fg-quaternary_hover focus-visible:outline-2 focus-visible:outline-offset-2"
+                                    >
+                                        <Plus className="size-5" />
+                                    </AriaButton>
+                                    <Dropdown.Popover>
+                                        <Dropdown.Menu selectionMode="none" onAction={(key: Key) => onAssign(slot, String(key))}>
+                                            {unassigned.map((favorite) => (
+                                                <Dropdown.Item key={favorite.id} id={favorite.id} label={favorite.name} />
+                                            ))}
+                                        </Dropdown.Menu>
+                                    </Dropdown.Popover>
+                                </Dropdown.Root>
+                            )}
+                        </div>
+                    );
+                }
+
+                return (
+                    <div
+                        key={station.id}
+                        className="relative flex rounded-lg border border-gray-800/50 bg-gray-900/50 transition-all hover:border-gray-700/50 hover:bg-gray-800/50"
+                    >
+                        <button type="button" onClick={() => onPlay(station)} className="flex flex-1 flex-col items-start p-5 pr-12 text-left">
+                            <p className="mb-1 text-xs text-quaternary">
+                                Preset <kbd className="font-sans">{number}</kbd>
+                            </p>
+                            <p className="truncate text-sm text-primary">{station.name}</p>
+                        </button>
+                        <Dropdown.Root>
+                            <Dropdown.DotsButton className="absolute top-4 right-4" />
+                            <Dropdown.Popover>
+                                <Dropdown.Menu
+                                    selectionMode="none"
+                                    disabledKeys={[slot === 0 && "left", slot === presets.length - 1 && "right"].filter((key) => key !== false)}
+                                    onAction={(key: Key) => {
+                                        if (key === "left") onMove(slot, slot - 1);
+                                        if (key === "right") onMove(slot, slot + 1);
+                                        if (key === "remove") onAssign(slot, null);
+                                    }}
+                                >
+                                    <Dropdown.Item id="left" label="Move left" icon={ArrowLeft} addon={slot > 0 ? String(number - 1) : undefined} />
+                                    <Dropdown.Item
+                                        id="right"
+                                        label="Move right"
+                                        icon={ArrowRight}
+                                        addon={slot < presets.length - 1 ? String(number + 1) : undefined}
+                                    />
+                                    <Dropdown.Separator />
+                                    <Dropdown.Item id="remove" label="Remove from presets" icon={Trash01} />
+                                </Dropdown.Menu>
+                            </Dropdown.Popover>
+                        </Dropdown.Root>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
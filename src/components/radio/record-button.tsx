@@ -0,0 +1,35 @@
+"use client";
+
+import { formatDuration } from "@/lib/radio/history";
+import { cx } from "@/utils/cx";
+
+interface RecordButtonProps {
+    /** When the recording of the playing station started, or null if it isn't being recorded. */
+    recordingSince: number | null;
+    now: number;
+    onToggle: () => void;
+    className?: string;
+}
+
+/**
+ * Starts recording the playing station, or stops and saves the recording.
+ */
+export const RecordButton = ({ recordingSince, now, onToggle, className }: RecordButtonProps) => {
+    const isRecording = recordingSince !== null;
+
+    return (
+        <button
+            type="button"
+            onClick={onToggle}
+            aria-pressed={isRecording}
+            aria-label={isRecording ? "Stop recording" : "Record"}
+            className={cx(
+                "flex h-9 min-w-9 items-center justify-center gap-1.5 rounded-lg bg-gray-700 px-2.5 text-xs font-medium text-primary tabular-nums hover:bg-gray-600",
+                className,
+            )}
+        >
+            <span className={cx("size-3 rounded-full bg-fg-error-primary", isRecording && "animate-pulse rounded-sm")} />
+            {isRecording && formatDuration(Math.max(0, Math.floor((now - recordingSince) / 1000)))}
+        </button>
+    );
+};
@@ -0,0 +1,284 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { FileIcon as FileTypeIcon } from "@untitledui/file-icons";
+import { ArrowLeft, CalendarPlus01, Download01, PauseCircle, PlayCircle, StopCircle, Trash01, XCircle, XClose } from "@untitledui/icons";
+import { motion } from "motion/react";
+import { FileUpload, getReadableFileSize } from "@/components/application/file-upload/file-upload-base";
+import { TableCard } from "@/components/application/table/table";
+import { Button } from "@/components/base/buttons/button";
+import { ButtonUtility } from "@/components/base/buttons/button-utility";
+import { ProgressBar } from "@/components/base/progress-indicators/progress-indicators";
+import type { ActiveRecording } from "@/hooks/use-recordings";
+import { formatDuration } from "@/lib/radio/history";
+import { getRecordingBlob } from "@/lib/radio/recording-db";
+import type { Recording, ScheduledRecording } from "@/lib/radio/recordings";
+import { MAX_RECORDING_DURATION, getRecordingExtension, getRecordingFileName } from "@/lib/radio/recordings";
+import { cx } from "@/utils/cx";
+import { downloadBlob } from "@/utils/download-blob";
+
+const dateFormat = new Intl.DateTimeFormat(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+const itemClassName = "relative flex gap-3 rounded-xl bg-primary p-4 ring-1 ring-secondary transition-shadow duration-100 ease-linear ring-inset";
+
+const AudioFileIcon = ({ mimeType }: { mimeType?: string }) => {
+    const type = mimeType && getRecordingExtension(mimeType) === "mp3" ? "mp3" : "audio";
+
+    return (
+        <>
+            <FileTypeIcon className="size-10 shrink-0 dark:hidden" type={type} theme="light" />
+            <FileTypeIcon className="size-10 shrink-0 not-dark:hidden" type={type} theme="dark" />
+        </>
+    );
+};
+
+const downloadRecording = async (recording: Recording) => {
+    const blob = await getRecordingBlob(recording.id);
+    if (blob) downloadBlob(blob, getRecordingFileName(recording));
+};
+
+interface ActiveRecordingItemProps {
+    recording: ActiveRecording;
+    now: number;
+    onStop: () => void;
+    onDismiss: () => void;
+}
+
+/**
+ * A recording in progress, styled like an upload in progress.
+ */
+const ActiveRecordingItem = ({ recording, now, onStop, onDismiss }: ActiveRecordingItemProps) => {
+    const failed = recording.error !== null;
+    const elapsed = Math.min(Math.max(0, now - recording.startedAt), recording.duration);
+    const hasLength = recording.duration < MAX_RECORDING_DURATION;
+
+    return (
+        <motion.li layout="position" className={cx(itemClassName, failed && "ring-2 ring-error")}>
+            <AudioFileIcon />
+
+            <div className="flex min-w-0 flex-1 flex-col items-start">
+                <div className="flex w-full max-w-full min-w-0 flex-1">
+                    <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm font-medium text-secondary">{recording.station}</p>
+
+                        <div className="mt-0.5 flex items-center gap-2">
+                            <p className="truncate text-sm whitespace-nowrap text-tertiary">{getReadableFileSize(recording.bytes)}</p>
+
+                            <hr className="h-3 w-px rounded-t-full rounded-b-full border-none bg-border-primary" />
+
+                            <div className="flex min-w-0 items-center gap-1">
+                                {failed ? (
+                                    <>
+                                        <XCircle className="size-4 shrink-0 text-fg-error-primary" />
+                                        <p className="truncate text-sm font-medium text-error-primary">{recording.error}</p>
+                                    </>
+                                ) : (
+                                    <>
+                                        <span className="size-2 shrink-0 animate-pulse rounded-full bg-fg-error-primary" />
+                                        <p className="text-sm font-medium whitespace-nowrap text-quaternary tabular-nums">
+                                            Recording {formatDuration(Math.floor(elapsed / 1000))}
+                                        </p>
+                                    </>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+
+                    {failed ? (
+                        <ButtonUtility color="tertiary" tooltip="Dismiss" icon={Trash01} size="xs" className="-mt-2 -mr-2 self-start" onClick={onDismiss} />
+                    ) : (
+                        <ButtonUtility
+                            color="tertiary"
+                            tooltip="Stop and save"
+                            icon={StopCircle}
+                            size="xs"
+                            className="-mt-2 -mr-2 self-start"
+                            onClick={onStop}
+                        />
+                    )}
+                </div>
+
+                {!failed && (
+                    <div className="mt-1 w-full">
+                        <ProgressBar
+                            labelPosition="right"
+                            min={0}
+                            max={recording.duration}
+                            value={elapsed}
+                            valueFormatter={() =>
+                                hasLength
+                                    ? `${formatDuration(Math.ceil((recording.duration - elapsed) / 1000))} left`
+                                    : `max. ${recording.duration / 3600000} h`
+                            }
+                        />
+                    </div>
+                )}
+            </div>
+        </motion.li>
+    );
+};
+
+interface RecordingItemProps {
+    recording: Recording;
+    /** The object URL to play the recording from, while it's playing. */
+    playbackUrl: string | null;
+    onPlay: () => void;
+    onPause: () => void;
+    onDelete: () => void;
+}
+
+const RecordingItem = ({ recording, playbackUrl, onPlay, onPause, onDelete }: RecordingItemProps) => {
+    return (
+        <motion.li layout="position" className={cx(itemClassName, "flex-col")}>
+            <div className="flex gap-3">
+                <AudioFileIcon mimeType={recording.mimeType} />
+
+                <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium text-secondary">{recording.station}</p>
+
+                    <div className="mt-0.5 flex flex-wrap items-center gap-x-2 text-sm whitespace-nowrap text-tertiary">
+                        <p>{dateFormat.format(recording.startedAt)}</p>
+                        <hr className="h-3 w-px rounded-t-full rounded-b-full border-none bg-border-primary" />
+                        <p className="tabular-nums">{formatDuration(Math.round(recording.duration / 1000))}</p>
+                        <hr className="h-3 w-px rounded-t-full rounded-b-full border-none bg-border-primary" />
+                        <p>{getReadableFileSize(recording.size)}</p>
+                    </div>
+                </div>
+
+                <div className="-mt-2 -mr-2 flex gap-0.5 self-start">
+                    {playbackUrl ? (
+                        <ButtonUtility color="tertiary" tooltip="Pause" icon={PauseCircle} size="xs" onClick={onPause} />
+                    ) : (
+                        <ButtonUtility color="tertiary" tooltip="Play" icon={PlayCircle} size="xs" onClick={onPlay} />
+                    )}
+                    <ButtonUtility color="tertiary" tooltip="Download" icon={Download01} size="xs" onClick={() => downloadRecording(recording)} />
+                    <ButtonUtility color="tertiary" tooltip="Delete" icon={Trash01} size="xs" onClick={onDelete} />
+                </div>
+            </div>
+
+            {playbackUrl && <audio src={playbackUrl} autoPlay controls onEnded={onPause} className="h-10 w-full" />}
+        </motion.li>
+    );
+};
+
+interface RecordingsProps {
+    recordings: Recording[];
+    active: ActiveRecording[];
+    schedules: ScheduledRecording[];
+    now: number;
+    onStop: (id: string) => void;
+    onDismiss: (id: string) => void;
+    onDelete: (id: string) => void;
+    onCancelSchedule: (id: string) => void;
+    /** Opens the form to schedule a recording. */
+    onSchedule: () => void;
+    /** Called when a recording starts playing, e.g. to pause the radio. */
+    onPlay: () => void;
+    onClose: () => void;
+}
+
+/**
+ * The recordings in progress, the scheduled ones and the finished ones, which
+ * can be played back, downloaded and deleted.
+ */
+export const Recordings = ({
+    recordings,
+    active,
+    schedules,
+    now,
+    onStop,
+    onDismiss,
+    onDelete,
+    onCancelSchedule,
+    onSchedule,
+    onPlay,
+    onClose,
+}: RecordingsProps) => {
+    const [playback, setPlayback] = useState<{ id: string; url: string } | null>(null);
+
+    useEffect(() => {
+        if (!playback) return;
+
+        return () => URL.revokeObjectURL(playback.url);
+    }, [playback]);
+
+    const play = async (recording: Recording) => {
+        const blob = await getRecordingBlob(recording.id);
+        if (!blob) return;
+
+        onPlay();
+        setPlayback({ id: recording.id, url: URL.createObjectURL(blob) });
+    };
+
+    const isEmpty = recordings.length === 0 && active.length === 0 && schedules.length === 0;
+
+    return (
+        <TableCard.Root className="mx-auto w-full max-w-3xl">
+            <TableCard.Header
+                title="Recordings"
+                badge={`${recordings.length} ${recordings.length === 1 ? "file" : "files"}`}
+                description="Recordings are saved in this browser and only run while the app is open."
+                contentTrailing={
+                    <div className="flex flex-wrap items-center gap-3">
+                        <Button color="secondary" size="sm" iconLeading={CalendarPlus01} onClick={onSchedule}>
+                            Schedule
+                        </Button>
+                        <Button color="tertiary" size="sm" iconLeading={ArrowLeft} onClick={onClose}>
+                            Back to chat
+                        </Button>
+                    </div>
+                }
+            />
+
+            <div className="flex flex-col gap-6 p-4 md:px-6">
+                {isEmpty && <p className="py-6 text-center text-sm text-tertiary">Press the record button while a station plays, or schedule a recording.</p>}
+
+                {schedules.length > 0 && (
+                    <section className="flex flex-col gap-2">
+                        <h3 className="text-sm font-semibold text-secondary">Scheduled</h3>
+                        <ul className="flex flex-col divide-y divide-secondary rounded-xl ring-1 ring-secondary ring-inset">
+                            {schedules.map((schedule) => (
+                                <li key={schedule.id} className="flex items-center gap-3 px-4 py-3">
+                                    <div className="min-w-0 flex-1">
+                                        <p className="truncate text-sm font-medium text-secondary">{schedule.station}</p>
+                                        <p className="text-sm text-tertiary">
+                                            {dateFormat.format(schedule.startsAt)} for {formatDuration(Math.round(schedule.duration / 1000))}
+                                        </p>
+                                    </div>
+                                    <ButtonUtility color="tertiary" tooltip="Cancel" icon={XClose} size="xs" onClick={() => onCancelSchedule(schedule.id)} />
+                                </li>
+                            ))}
+                        </ul>
+                    </section>
+                )}
+
+                {(active.length > 0 || recordings.length > 0) && (
+                    <FileUpload.List>
+                        {active.map((recording) => (
+                            <ActiveRecordingItem
+                                key={recording.id}
+                                recording={recording}
+                                now={now}
+                                onStop={() => onStop(recording.id)}
+                                onDismiss={() => onDismiss(recording.id)}
+                            />
+                        ))}
+                        {recordings.map((recording) => (
+                            <RecordingItem
+                                key={recording.id}
+                                recording={recording}
+                                playbackUrl={playback?.id === recording.id ? playback.url : null}
+                                onPlay={() => play(recording)}
+                                onPause={() => setPlayback(null)}
+                                onDelete={() => {
+                                    if (playback?.id === recording.id) setPlayback(null);
+                                    onDelete(recording.id);
+                                }}
+                            />
+                        ))}
+                    </FileUpload.List>
+                )}
+            </div>
+        </TableCard.Root>
+    );
+};
@@ -0,0 +1,66 @@
+"use client";
+
+import { fromProxyUrl, isProxyUrl } from "@/lib/radio/proxy";
+import type { ResolveAttempt } from "@/lib/radio/resolver";
+import { cx } from "@/utils/cx";
+
+const STRATEGY_LABELS: Record<ResolveAttempt["strategy"], string> = {
+    catalog: "Catalog",
+    "radio-browser": "Radio Browser",
+    proxy: "Proxy",
+    playlist: "Playlist",
+};
+
+const formatUrl = (url: string) => {
+    if (!url) return "Station lookup";
+
+    const upstream = fromProxyUrl(url);
+
+    try {
+        const { host, pathname } = new URL(upstream);
+        return `${host}${pathname}${isProxyUrl(url) ? " (via proxy)" : ""}`;
+    } catch {
+        return upstream;
+    }
+};
+
+interface ResolveAttemptsProps {
+    attempts: ResolveAttempt[];
+}
+
+/**
+ * A collapsible log of every stream URL that was tried while connecting to a station.
+ */
+export const ResolveAttempts = ({ attempts }: ResolveAttemptsProps) => {
+    if (attempts.length === 0) return null;
+
+    return (
+        <details className="mt-3 text-xs text-tertiary">
+            <summary className="cursor-pointer select-none hover:text-secondary">
+                Connection details ({attempts.length} {attempts.length === 1 ? "attempt" : "attempts"})
+            </summary>
+            <ol className="mt-2 flex flex-col gap-1.5">
+                {attempts.map((attempt, index) => (
+                    <li key={index} className="flex items-start gap-2 rounded-md bg-gray-900 px-2.5 py-2">
+                        <span
+                            className={cx(
+                                "mt-1 size-1.5 shrink-0 rounded-full",
+                                attempt.outcome === "success" ? "bg-success-500" : attempt.outcome === "skipped" ? "bg-gray-500" : "bg-error-500",
+                            )}
+                        />
+                        <div className="min-w-0 flex-1">
+                            <p className="truncate font-medium text-secondary" title={attempt.url}>
+                                {formatUrl(attempt.url)}
+                            </p>
+                            <p>
+                                {STRATEGY_LABELS[attempt.strategy]} · {attempt.outcome}
+                                {attempt.errorType && ` (${attempt.errorType})`} · {attempt.latency} ms
+                            </p>
+                            {attempt.error && <p className="text-quaternary">{attempt.error}</p>}
+                        </div>
+                    </li>
+                ))}
+            </ol>
+        </details>
+    );
+};
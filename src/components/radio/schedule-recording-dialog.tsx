@@ -0,0 +1,145 @@
+"use client";
+
+import { useState } from "react";
+import type { CalendarDate, Time } from "@internationalized/date";
+import { fromDate, getLocalTimeZone, toCalendarDate, toCalendarDateTime, toTime, today } from "@internationalized/date";
+import { Recording01 } from "@untitledui/icons";
+import { Heading as AriaHeading, TimeField as AriaTimeField } from "react-aria-components";
+import { DateInput } from "@/components/application/date-picker/date-input";
+import { DatePicker } from "@/components/application/date-picker/date-picker";
+import { Dialog, Modal, ModalOverlay } from "@/components/application/modals/modal";
+import { Button } from "@/components/base/buttons/button";
+import { Label } from "@/components/base/input/label";
+import { Select } from "@/components/base/select/select";
+import { FeaturedIcon } from "@/components/foundations/featured-icon/featured-icon";
+import { formatMinutes } from "@/lib/radio/timers";
+
+const DURATION_OPTIONS = [15, 30, 60, 90, 120, 180];
+
+const DEFAULT_DURATION = 60;
+
+/** A station that can be recorded, i.e. one with a progressive stream. */
+export interface RecordableStation {
+    name: string;
+    url: string;
+}
+
+interface ScheduleFormProps {
+    stations: RecordableStation[];
+    defaultStation: string | null;
+    onSave: (station: string, url: string, startsAt: number, duration: number) => void;
+    onClose: () => void;
+}
+
+const ScheduleForm = ({ stations, defaultStation, onSave, onClose }: ScheduleFormProps) => {
+    // Suggest the next full hour, when most shows start
+    const initial = fromDate(new Date(Math.ceil(Date.now() / 3600000) * 3600000), getLocalTimeZone());
+    const [date, setDate] = useState<CalendarDate | null>(() => toCalendarDate(initial));
+    const [time, setTime] = useState<Time | null>(() => toTime(initial));
+    const [station, setStation] = useState<string | null>(() => stations.find(({ name }) => name === defaultStation)?.name ?? stations[0]?.name ?? null);
+    const [duration, setDuration] = useState(DEFAULT_DURATION);
+
+    const startsAt = date && time ? toCalendarDateTime(date, time).toDate(getLocalTimeZone()).getTime() : null;
+    const isInPast = startsAt !== null && startsAt <= Date.now();
+    const selected = stations.find(({ name }) => name === station);
+
+    return (
+        <form
+            className="flex w-full flex-col gap-5"
+            onSubmit={(event) => {
+                event.preventDefault();
+                if (startsAt === null || isInPast || !selected) return;
+
+                onSave(selected.name, selected.url, startsAt, duration * 60000);
+                onClose();
+            }}
+        >
+            <div className="flex gap-4">
+                <FeaturedIcon icon={Recording01} color="brand" theme="light" size="lg" />
+                <div>
+                    <AriaHeading slot="title" className="text-lg font-semibold text-primary">
+                        Schedule a recording
+                    </AriaHeading>
+                    <p className="text-sm text-tertiary">The show is recorded in this browser, so keep this tab open until it&apos;s over.</p>
+                </div>
+            </div>
+
+            {stations.length === 0 ? (
+                <p className="text-sm text-tertiary">Star a station or start playing one to record it.</p>
+            ) : (
+                <Select
+                    label="Station"
+                    selectedKey={station}
+                    onSelectionChange={(key) => setStation(key === null ? null : String(key))}
+                    items={stations.map(({ name }) => ({ id: name, label: name }))}
+                    hint="HLS stations can only be recorded while they play, with the record button."
+                >
+                    {(item) => <Select.Item id={item.id} label={item.label} />}
+                </Select>
+            )}
+
+            <div className="flex flex-wrap items-end gap-3">
+                <AriaTimeField value={time} onChange={setTime} className="flex flex-col gap-1.5">
+                    <Label>Start</Label>
+                    <DateInput />
+                </AriaTimeField>
+                <div className="flex flex-col gap-1.5">
+                    <span className="text-sm font-medium text-secondary">Day</span>
+                    <DatePicker
+                        aria-label="Day"
+                        value={date}
+                        onChange={(value) => setDate(value as CalendarDate | null)}
+                        minValue={today(getLocalTimeZone())}
+                    />
+                </div>
+            </div>
+
+            <Select
+                label="Length"
+                selectedKey={String(duration)}
+                onSelectionChange={(key) => setDuration(Number(key) || DEFAULT_DURATION)}
+                items={DURATION_OPTIONS.map((minutes) => ({ id: String(minutes), label: formatMinutes(minutes) }))}
+            >
+                {(item) => <Select.Item id={item.id} label={item.label} />}
+            </Select>
+
+            {isInPast && <p className="text-sm text-error-primary">That time has already passed.</p>}
+
+            <div className="grid grid-cols-2 gap-3">
+                <Button size="md" color="secondary" onClick={onClose}>
+                    Cancel
+                </Button>
+                <Button size="md" color="primary" type="submit" isDisabled={startsAt === null || isInPast || !selected}>
+                    Schedule
+                </Button>
+            </div>
+        </form>
+    );
+};
+
+interface ScheduleRecordingDialogProps {
+    isOpen: boolean;
+    onOpenChange: (isOpen: boolean) => void;
+    /** The stations that can be picked, e.g. the favorites. */
+    stations: RecordableStation[];
+    /** The station picked at first, e.g. the one playing. */
+    defaultStation: string | null;
+    onSave: (station: string, url: string, startsAt: number, duration: number) => void;
+}
+
+/**
+ * Schedules a recording of a station at a set time and for a set length.
+ */
+export const ScheduleRecordingDialog = ({ isOpen, onOpenChange, stations, defaultStation, onSave }: ScheduleRecordingDialogProps) => {
+    return (
+        <ModalOverlay isDismissable isOpen={isOpen} onOpenChange={onOpenChange}>
+            <Modal className="max-w-md">
+                <Dialog>
+                    <div className="w-full rounded-2xl bg-primary p-6 shadow-xl ring ring-secondary_alt">
+                        <ScheduleForm stations={stations} defaultStation={defaultStation} onSave={onSave} onClose={() => onOpenChange(false)} />
+                    </div>
+                </Dialog>
+            </Modal>
+        </ModalOverlay>
+    );
+};
@@ -0,0 +1,91 @@
+"use client";
+
+import { Keyboard01 } from "@untitledui/icons";
+import { Heading as AriaHeading } from "react-aria-components";
+import { Dialog, Modal, ModalOverlay } from "@/components/application/modals/modal";
+import { Badge } from "@/components/base/badges/badges";
+import { Button } from "@/components/base/buttons/button";
+import { FeaturedIcon } from "@/components/foundations/featured-icon/featured-icon";
+import { useFormatShortcut } from "@/hooks/use-format-shortcut";
+import { useShortcutConflicts } from "@/hooks/use-shortcut";
+
+/** Bindings with more keys than this, like the presets, are shown as a range. */
+const MAX_LISTED_KEYS = 3;
+
+const Kbd = ({ children }: { children: string }) => (
+    <kbd className="flex rounded px-1.5 py-px font-body text-xs font-medium text-tertiary ring-1 ring-secondary ring-inset">{children}</kbd>
+);
+
+interface ShortcutsDialogProps {
+    isOpen: boolean;
+    onOpenChange: (isOpen: boolean) => void;
+}
+
+/**
+ * Lists every keyboard shortcut that's currently bound, and flags the ones
+ * that conflict with each other.
+ */
+export const ShortcutsDialog = ({ isOpen, onOpenChange }: ShortcutsDialogProps) => {
+    const { hotkeys, conflicts } = useShortcutConflicts();
+    const formatShortcut = useFormatShortcut();
+
+    // Bindings with several keys, like the presets, are registered once per key
+    const groups = new Map<string, string[]>();
+
+    for (const hotkey of hotkeys) {
+        const description = hotkey.description ?? hotkey.hotkey;
+        groups.set(description, [...(groups.get(description) ?? []), hotkey.hotkey]);
+    }
+
+    return (
+        <ModalOverlay isDismissable isOpen={isOpen} onOpenChange={onOpenChange}>
+            <Modal className="max-w-md">
+                <Dialog>
+                    <div className="flex w-full flex-col gap-5 rounded-2xl bg-primary p-6 shadow-xl ring ring-secondary_alt">
+                        <div className="flex gap-4">
+                            <FeaturedIcon icon={Keyboard01} color="brand" theme="light" size="lg" />
+                            <div>
+                                <AriaHeading slot="title" className="text-lg font-semibold text-primary">
+                                    Keyboard shortcuts
+                                </AriaHeading>
+                                <p className="text-sm text-tertiary">Shortcuts don&apos;t work while you&apos;re typing, except for station search.</p>
+                            </div>
+                        </div>
+
+                        <ul className="flex flex-col divide-y divide-secondary">
+                            {[...groups].map(([description, keys]) => {
+                                const isConflicting = keys.some((key) => conflicts.has(key));
+
+                                return (
+                                    <li key={description} className="flex items-center justify-between gap-4 py-2.5">
+                                        <span className="flex items-center gap-2 text-sm text-secondary">
+                                            {description}
+                                            {isConflicting && (
+                                                <Badge type="pill-color" color="error" size="sm">
+                                                    Conflict
+                                                </Badge>
+                                            )}
+                                        </span>
+                                        <span className="flex shrink-0 items-center gap-1 text-xs text-quaternary">
+                                            {keys.length > MAX_LISTED_KEYS ? (
+                                                <>
+                                                    <Kbd>{formatShortcut(keys[0])}</Kbd>–<Kbd>{formatShortcut(keys[keys.length - 1])}</Kbd>
+                                                </>
+                                            ) : (
+                                                keys.map((key) => <Kbd key={key}>{formatShortcut(key)}</Kbd>)
+                                            )}
+                                        </span>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+
+                        <Button size="md" color="secondary" onClick={() => onOpenChange(false)}>
+                            Close
+                        </Button>
+                    </div>
+                </Dialog>
+            </Modal>
+        </ModalOverlay>
+    );
+};
@@ -0,0 +1,60 @@
+"use client";
+
+import { Badge } from "@/components/base/badges/badges";
+import type { StationCandidate } from "@/lib/radio/ranking";
+import { cx } from "@/utils/cx";
+
+interface StationCandidatesProps {
+    candidates: StationCandidate[];
+    /** The `stationuuid` of the candidate that was picked, if any. */
+    selectedId?: string;
+    onSelect: (candidate: StationCandidate, index: number) => void;
+}
+
+const formatStream = ({ codec, bitrate }: StationCandidate["station"]) => [codec, bitrate > 0 && `${bitrate} kbps`].filter(Boolean).join(" · ");
+
+export const StationCandidates = ({ candidates, selectedId, onSelect }: StationCandidatesProps) => {
+    return (
+        <ol className="mt-3 flex flex-col gap-2">
+            {candidates.map((candidate, index) => {
+                const { station } = candidate;
+                const isSelected = station.stationuuid === selectedId;
+                const stream = formatStream(station);
+
+                return (
+                    <li key={station.stationuuid}>
+                        <button
+                            type="button"
+                            onClick={() => onSelect(candidate, index)}
+                            aria-pressed={isSelected}
+                            className={cx(
+                                "flex w-full items-center gap-3 rounded-lg bg-gray-900 p-3 text-left ring-1 ring-transparent transition-colors ring-inset hover:bg-gray-700",
+                                isSelected && "ring-brand-500",
+                            )}
+                        >
+                            <span className="flex size-6 shrink-0 items-center justify-center rounded-full bg-gray-700 text-xs font-semibold text-secondary">
+                                {index + 1}
+                            </span>
+                            <div className="min-w-0 flex-1">
+                                <p className="truncate text-sm font-medium text-primary">{station.name}</p>
+                                <p className="truncate text-xs text-tertiary">
+                                    {[station.country, station.language].filter(Boolean).join(" · ") || "Unknown location"}
+                                </p>
+                            </div>
+                            <div className="flex shrink-0 items-center gap-1.5">
+                                {stream && (
+                                    <Badge type="modern" size="sm">
+                                        {stream}
+                                    </Badge>
+                                )}
+                                <Badge type="modern" size="sm">
+                                    {station.votes.toLocaleString()} votes
+                                </Badge>
+                            </div>
+                        </button>
+                    </li>
+                );
+            })}
+        </ol>
+    );
+};
@@ -0,0 +1,157 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { MusicNote01, SearchLg } from "@untitledui/icons";
+import type { Key } from "react-aria-components";
+import { Autocomplete as AriaAutocomplete, ListBox as AriaListBox, ListBoxItem as AriaListBoxItem, Text as AriaText } from "react-aria-components";
+import { Dialog, Modal, ModalOverlay } from "@/components/application/modals/modal";
+import { Avatar } from "@/components/base/avatar/avatar";
+import { Input } from "@/components/base/input/input";
+import type { FavoriteStation } from "@/lib/radio/favorites";
+import { getFavoriteId } from "@/lib/radio/favorites";
+import type { RadioMode } from "@/lib/radio/modes";
+import { filterDirectoryStations } from "@/lib/radio/modes";
+import { isMixedContent } from "@/lib/radio/proxy";
+import { isPlayableStation, radioBrowser } from "@/lib/radio/radio-browser";
+import type { StationSearchResult } from "@/lib/radio/station-search";
+import { searchLocalStations, toStationSearchResult } from "@/lib/radio/station-search";
+import { cx } from "@/utils/cx";
+
+/** How long to wait after the last keystroke before searching Radio Browser, in milliseconds. */
+const SEARCH_DEBOUNCE = 300;
+
+/** How many Radio Browser stations are suggested at most. */
+const MAX_REMOTE_RESULTS = 10;
+
+interface StationSearchProps {
+    favorites: FavoriteStation[];
+    /** The search mode, which decides whether Radio Browser is searched and which stations are offered. */
+    mode: RadioMode;
+    onSelect: (station: StationSearchResult) => void;
+    onClose: () => void;
+}
+
+const StationSearch = ({ favorites, mode, onSelect, onClose }: StationSearchProps) => {
+    const [query, setQuery] = useState("");
+    const [remote, setRemote] = useState<{ query: string; results: StationSearchResult[] }>({ query: "", results: [] });
+    const trimmed = query.trim();
+    const isSearching = mode.searchesDirectory && trimmed !== "" && remote.query !== trimmed;
+
+    useEffect(() => {
+        if (!trimmed || !mode.searchesDirectory) return;
+        let isCurrent = true;
+
+        const timeout = setTimeout(async () => {
+            try {
+                const stations = await radioBrowser.searchStations({
+                    name: trimmed,
+                    limit: MAX_REMOTE_RESULTS * 2,
+                    order: "votes",
+                    reverse: true,
+                    hidebroken: true,
+                    bitrateMin: mode.bitrateMin,
+                });
+                const results = filterDirectoryStations(mode, stations.filter(isPlayableStation)).slice(0, MAX_REMOTE_RESULTS).map(toStationSearchResult);
+
+                if (isCurrent) setRemote({ query: trimmed, results });
+            } catch {
+                // The catalog and favorites still answer while Radio Browser is unreachable
+                if (isCurrent) setRemote({ query: trimmed, results: [] });
+            }
+        }, SEARCH_DEBOUNCE);
+
+        return () => {
+            isCurrent = false;
+            clearTimeout(timeout);
+        };
+    }, [trimmed, mode]);
+
+    const local = searchLocalStations(trimmed, favorites, mode);
+    const localIds = new Set(local.map((station) => getFavoriteId(station.name)));
+    const results = [
+        ...local,
+        ...(mode.searchesDirectory && remote.query === trimmed ? remote.results : []).filter((station, index, all) => {
+            const id = getFavoriteId(station.name);
+            return !localIds.has(id) && all.findIndex((other) => getFavoriteId(other.name) === id) === index;
+        }),
+    ];
+
+    return (
+        <AriaAutocomplete inputValue={query} onInputChange={setQuery}>
+            <Input autoFocus size="md" aria-label="Search stations" placeholder="Search by name, genre, language or city" icon={SearchLg} />
+
+            <AriaListBox
+                aria-label="Stations"
+                items={results}
+                className="mt-3 flex max-h-96 flex-col gap-0.5 overflow-y-auto outline-hidden"
+                onAction={(key: Key) => {
+                    const station = results.find((result) => result.id === key);
+                    if (!station) return;
+
+                    onSelect(station);
+                    onClose();
+                }}
+                renderEmptyState={() => (
+                    <p className="px-2 py-6 text-center text-sm text-tertiary">
+                        {!trimmed ? "Star stations to find them here, or type to search." : isSearching ? "Searching…" : `No stations found for “${trimmed}”.`}
+                    </p>
+                )}
+            >
+                {(station) => (
+                    <AriaListBoxItem
+                        id={station.id}
+                        textValue={station.name}
+                        className={({ isFocused }) =>
+                            cx("flex cursor-pointer items-center gap-3 rounded-md px-2 py-2 outline-hidden", isFocused && "bg-primary_hover")
+                        }
+                    >
+                        <Avatar
+                            size="sm"
+                            src={station.favicon && !isMixedContent(station.favicon) ? station.favicon : undefined}
+                            placeholderIcon={MusicNote01}
+                            alt={station.name}
+                        />
+                        <div className="min-w-0 flex-1">
+                            <AriaText slot="label" className="block truncate text-sm font-medium text-primary">
+                                {station.name}
+                            </AriaText>
+                            {station.detail && (
+                                <AriaText slot="description" className="block truncate text-xs text-tertiary">
+                                    {station.detail}
+                                </AriaText>
+                            )}
+                        </div>
+                    </AriaListBoxItem>
+                )}
+            </AriaListBox>
+        </AriaAutocomplete>
+    );
+};
+
+interface StationSearchDialogProps {
+    isOpen: boolean;
+    onOpenChange: (isOpen: boolean) => void;
+    favorites: FavoriteStation[];
+    mode: RadioMode;
+    /** Called with the station the listener picked to play. */
+    onSelect: (station: StationSearchResult) => void;
+}
+
+/**
+ * Finds a station to play by name without asking the assistant: favorites
+ * and catalog stations are suggested as you type, Radio Browser stations
+ * follow once it answers if the search mode searches the directory.
+ */
+export const StationSearchDialog = ({ isOpen, onOpenChange, favorites, mode, onSelect }: StationSearchDialogProps) => {
+    return (
+        <ModalOverlay isDismissable isOpen={isOpen} onOpenChange={onOpenChange} className="sm:items-start sm:pt-[15vh]">
+            <Modal className="max-w-lg">
+                <Dialog aria-label="Search stations">
+                    <div className="w-full rounded-2xl bg-primary p-4 shadow-xl ring ring-secondary_alt">
+                        <StationSearch favorites={favorites} mode={mode} onSelect={onSelect} onClose={() => onOpenChange(false)} />
+                    </div>
+                </Dialog>
+            </Modal>
+        </ModalOverlay>
+    );
+};
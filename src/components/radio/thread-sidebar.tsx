@@ -0,0 +1,136 @@
+"use client";
+
+import { useState } from "react";
+import { Edit05, Plus, Trash01 } from "@untitledui/icons";
+import type { Key } from "react-aria-components";
+import { SidebarNavigationSimple } from "@/components/application/app-navigation/sidebar-navigation/sidebar-simple";
+import { Button } from "@/components/base/buttons/button";
+import { Dropdown } from "@/components/base/dropdown/dropdown";
+import { Input } from "@/components/base/input/input";
+import type { ChatThread } from "@/lib/radio/threads";
+import { getThreadTitle, searchThreads } from "@/lib/radio/threads";
+import { cx } from "@/utils/cx";
+
+/** Focuses the conversation search, since ⌘K opens the station search. */
+const SEARCH_SHORTCUT = "mod+shift+f";
+
+interface ThreadItemProps {
+    thread: ChatThread;
+    isActive: boolean;
+    onSelect: () => void;
+    onRename: (title: string) => void;
+    onDelete: () => void;
+}
+
+const ThreadItem = ({ thread, isActive, onSelect, onRename, onDelete }: ThreadItemProps) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const title = getThreadTitle(thread);
+
+    if (isEditing) {
+        const save = (value: string) => {
+            onRename(value);
+            setIsEditing(false);
+        };
+
+        return (
+            <li className="py-0.5">
+                <Input
+                    autoFocus
+                    size="sm"
+                    aria-label="Conversation title"
+                    defaultValue={title}
+                    onBlur={(event) => save(event.currentTarget.value)}
+                    onKeyDown={(event) => {
+                        if (event.key === "Enter") save(event.currentTarget.value);
+                        if (event.key === "Escape") setIsEditing(false);
+                    }}
+                />
+            </li>
+        );
+    }
+
+    return (
+        <li className="relative py-0.5">
+            <button
+                type="button"
+                onClick={onSelect}
+                aria-current={isActive ? "page" : undefined}
+                className={cx(
+                    "group flex w-full cursor-pointer items-center rounded-md bg-primary py-2 pr-10 pl-3 text-left outline-focus-ring transition duration-100 ease-linear hover:bg-primary_hover focus-visible:outline-2 focus-visible:outline-offset-2",
+                    isActive && "bg-active hover:bg-secondary_hover",
+                )}
+            >
+                <span
+                    className={cx("flex-1 truncate text-md font-semibold text-secondary group-hover:text-secondary_hover", isActive && "text-secondary_hover")}
+                >
+                    {title}
+                </span>
+            </button>
+            <Dropdown.Root>
+                <Dropdown.DotsButton className="absolute top-1/2 right-2 -translate-y-1/2" />
+                <Dropdown.Popover className="w-min">
+                    <Dropdown.Menu
+                        selectionMode="none"
+                        onAction={(key: Key) => {
+                            if (key === "rename") setIsEditing(true);
+                            if (key === "delete") onDelete();
+                        }}
+                    >
+                        <Dropdown.Item id="rename" icon={Edit05}>
+                            <span className="pr-4">Rename</span>
+                        </Dropdown.Item>
+                        <Dropdown.Item id="delete" icon={Trash01}>
+                            <span className="pr-4">Delete</span>
+                        </Dropdown.Item>
+                    </Dropdown.Menu>
+                </Dropdown.Popover>
+            </Dropdown.Root>
+        </li>
+    );
+};
+
+interface ThreadSidebarProps {
+    /** Every conversation, most recently updated first. */
+    threads: ChatThread[];
+    activeId: string | null;
+    onSelect: (id: string) => void;
+    onNew: () => void;
+    onRename: (id: string, title: string) => void;
+    onDelete: (id: string) => void;
+}
+
+/**
+ * The saved conversations, with a search field and a button to start a new
+ * chat.
+ */
+export const ThreadSidebar = ({ threads, activeId, onSelect, onNew, onRename, onDelete }: ThreadSidebarProps) => {
+    const [query, setQuery] = useState("");
+    const results = searchThreads(threads, query);
+
+    return (
+        <SidebarNavigationSimple items={[]} showAccountCard={false} searchValue={query} onSearchChange={setQuery} searchShortcut={SEARCH_SHORTCUT}>
+            <div className="flex min-h-0 flex-col gap-2 px-2 lg:px-4">
+                <Button color="secondary" size="sm" iconLeading={Plus} onClick={onNew}>
+                    New chat
+                </Button>
+
+                {results.length > 0 ? (
+                    <ul className="flex flex-col">
+                        {results.map((thread) => (
+                            <ThreadItem
+                                key={thread.id}
+                                thread={thread}
+                                isActive={thread.id === activeId}
+                                onSelect={() => onSelect(thread.id)}
+                                onRename={(title) => onRename(thread.id, title)}
+                                onDelete={() => onDelete(thread.id)}
+                            />
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="px-3 py-2 text-sm text-tertiary">{query.trim() ? "No conversations match your search." : "No conversations yet."}</p>
+                )}
+            </div>
+        </SidebarNavigationSimple>
+    );
+};
@@ -0,0 +1,127 @@
+"use client";
+
+import { AlarmClock, AlarmClockOff, AlarmClockPlus, ClockSnooze, Moon01 } from "@untitledui/icons";
+import type { Key } from "react-aria-components";
+import { Button as AriaButton } from "react-aria-components";
+import { BadgeWithIcon } from "@/components/base/badges/badges";
+import { Button } from "@/components/base/buttons/button";
+import { Dropdown } from "@/components/base/dropdown/dropdown";
+import type { Alarm, SleepTimer } from "@/lib/radio/timers";
+import { SNOOZE_DURATION, formatCountdown } from "@/lib/radio/timers";
+
+const SLEEP_OPTIONS = [15, 30, 60, 90];
+
+const timeFormat = new Intl.DateTimeFormat(undefined, { timeStyle: "short" });
+
+interface TimerBadgesProps {
+    sleep: SleepTimer | null;
+    alarm: Alarm | null;
+    now: number;
+}
+
+/**
+ * Countdowns to the sleep timer and the next alarm.
+ */
+export const TimerBadges = ({ sleep, alarm, now }: TimerBadgesProps) => {
+    return (
+        <>
+            {sleep && (
+                <span title="Sleep timer" className="tabular-nums">
+                    <BadgeWithIcon type="pill-color" color="gray" size="sm" iconLeading={Moon01}>
+                        {formatCountdown(sleep.endsAt, now)}
+                    </BadgeWithIcon>
+                </span>
+            )}
+            {alarm && alarm.ringingSince === null && (
+                <span title={`Alarm at ${timeFormat.format(alarm.at)} with ${alarm.station}`} className="tabular-nums">
+                    <BadgeWithIcon type="pill-color" color="brand" size="sm" iconLeading={AlarmClock}>
+                        {formatCountdown(alarm.at, now)}
+                    </BadgeWithIcon>
+                </span>
+            )}
+        </>
+    );
+};
+
+interface TimerMenuProps {
+    sleep: SleepTimer | null;
+    alarm: Alarm | null;
+    onSleep: (minutes: number) => void;
+    onCancelSleep: () => void;
+    /** Opens the alarm settings. */
+    onEditAlarm: () => void;
+    onCancelAlarm: () => void;
+}
+
+/**
+ * The player bar menu for the sleep timer and the wake-up alarm.
+ */
+export const TimerMenu = ({ sleep, alarm, onSleep, onCancelSleep, onEditAlarm, onCancelAlarm }: TimerMenuProps) => {
+    return (
+        <Dropdown.Root>
+            <AriaButton
+                aria-label="Sleep timer and alarm"
+                className="flex size-9 cursor-pointer items-center justify-center rounded-lg bg-gray-700 text-primary outline-focus-ring hover:bg-gray-600 focus-visible:outline-2 focus-visible:outline-offset-2"
+            >
+                <Moon01 className="size-4" />
+            </AriaButton>
+            <Dropdown.Popover className="w-min">
+                <Dropdown.Menu
+                    selectionMode="none"
+                    onAction={(key: Key) => {
+                        const minutes = Number(String(key).replace("sleep-", ""));
+
+                        if (key === "cancel-sleep") onCancelSleep();
+                        else if (key === "alarm") onEditAlarm();
+                        else if (key === "cancel-alarm") onCancelAlarm();
+                        else if (minutes) onSleep(minutes);
+                    }}
+                >
+                    <Dropdown.Section>
+                        {SLEEP_OPTIONS.map((minutes) => (
+                            <Dropdown.Item key={minutes} id={`sleep-${minutes}`} icon={Moon01}>
+                                <span className="pr-4 whitespace-nowrap">Sleep in {minutes} minutes</span>
+                            </Dropdown.Item>
+                        ))}
+                        {sleep && <Dropdown.Item id="cancel-sleep" label="Cancel sleep timer" />}
+                    </Dropdown.Section>
+                    <Dropdown.Separator />
+                    <Dropdown.Section>
+                        <Dropdown.Item id="alarm" icon={AlarmClockPlus}>
+                            <span className="pr-4 whitespace-nowrap">{alarm ? "Change wake-up alarm…" : "Set wake-up alarm…"}</span>
+                        </Dropdown.Item>
+                        {alarm && (
+                            <Dropdown.Item id="cancel-alarm" icon={AlarmClockOff}>
+                                <span className="pr-4 whitespace-nowrap">Cancel alarm</span>
+                            </Dropdown.Item>
+                        )}
+                    </Dropdown.Section>
+                </Dropdown.Menu>
+            </Dropdown.Popover>
+        </Dropdown.Root>
+    );
+};
+
+interface AlarmRingingProps {
+    alarm: Alarm;
+    onSnooze: () => void;
+    onDismiss: () => void;
+}
+
+/**
+ * Shown while the wake-up alarm is going off.
+ */
+export const AlarmRinging = ({ alarm, onSnooze, onDismiss }: AlarmRingingProps) => {
+    return (
+        <div role="alert" className="mt-4 flex items-center gap-3 rounded-lg border border-brand-700 bg-brand-950 p-3">
+            <AlarmClock className="size-5 shrink-0 text-fg-brand-secondary" />
+            <p className="flex-1 text-sm text-primary">Good morning! Waking you up with {alarm.station}.</p>
+            <Button size="sm" color="secondary" iconLeading={ClockSnooze} onClick={onSnooze}>
+                Snooze {SNOOZE_DURATION / 60000} min
+            </Button>
+            <Button size="sm" color="primary" onClick={onDismiss}>
+                Dismiss
+            </Button>
+        </div>
+    );
+};
@@ -0,0 +1,110 @@
+"use client";
+
+import { useEffect, useRef, useSyncExternalStore } from "react";
+import { useReducedMotion } from "motion/react";
+import { useStore } from "@/hooks/use-store";
+import type { AudioOutput } from "@/lib/radio/audio-output";
+import type { AnalyserBuffers, VisualizerFrame } from "@/lib/radio/visualizer";
+import { REST_FRAME, VISUALIZER_STYLES, createAnalyserBuffers, drawFrame, getIdleFrame, readFrame, visualizerStyleStore } from "@/lib/radio/visualizer";
+import { cx } from "@/utils/cx";
+
+/** How long the audio may read as silent before it's taken as unreadable, in milliseconds. */
+const SILENCE_TIMEOUT = 2000;
+
+const subscribeToVisibility = (onChange: () => void) => {
+    document.addEventListener("visibilitychange", onChange);
+    return () => document.removeEventListener("visibilitychange", onChange);
+};
+
+const usePageVisible = () =>
+    useSyncExternalStore(
+        subscribeToVisibility,
+        () => document.visibilityState === "visible",
+        () => true,
+    );
+
+/** Matches the canvas resolution to its size on screen. */
+const fitCanvas = (canvas: HTMLCanvasElement) => {
+    const width = Math.round(canvas.clientWidth * devicePixelRatio);
+    const height = Math.round(canvas.clientHeight * devicePixelRatio);
+
+    if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+    }
+};
+
+interface VisualizerProps {
+    output: AudioOutput;
+    isPlaying: boolean;
+    className?: string;
+}
+
+/**
+ * Draws what the player plays as a spectrum, a waveform or a pulse. Clicking
+ * it switches between them. It rests while paused, in background tabs and for
+ * listeners who prefer reduced motion, and shows an idle animation when the
+ * audio can't be read.
+ */
+export const Visualizer = ({ output, isPlaying, className }: VisualizerProps) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [style, setStyle] = useStore(visualizerStyleStore);
+    const prefersReducedMotion = useReducedMotion();
+    const isVisible = usePageVisible();
+    const index = VISUALIZER_STYLES.findIndex(({ id }) => id === style);
+    const next = VISUALIZER_STYLES[(index + 1) % VISUALIZER_STYLES.length];
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const context = canvas?.getContext("2d");
+        if (!canvas || !context) return;
+
+        const color = getComputedStyle(canvas).color;
+
+        fitCanvas(canvas);
+
+        if (!isPlaying || !isVisible || prefersReducedMotion) {
+            drawFrame(context, style, REST_FRAME, color);
+            return;
+        }
+
+        let buffers: AnalyserBuffers | null = null;
+        let silentSince: number | null = null;
+        let frameId = 0;
+
+        const render = (time: number) => {
+            const analyser = output.analyser;
+            if (analyser && buffers?.samples.length !== analyser.fftSize) buffers = createAnalyserBuffers(analyser);
+
+            let frame: VisualizerFrame | null = analyser && buffers ? readFrame(analyser, buffers) : null;
+
+            if (frame) {
+                silentSince = null;
+            } else {
+                // A short silence is drawn as such; a long one most likely means the audio can't be read
+                silentSince ??= time;
+                frame = time - silentSince < SILENCE_TIMEOUT ? REST_FRAME : getIdleFrame(time);
+            }
+
+            fitCanvas(canvas);
+            drawFrame(context, style, frame, color);
+            frameId = requestAnimationFrame(render);
+        };
+
+        frameId = requestAnimationFrame(render);
+
+        return () => cancelAnimationFrame(frameId);
+    }, [output, isPlaying, isVisible, prefersReducedMotion, style]);
+
+    return (
+        <button
+            type="button"
+            onClick={() => setStyle(next.id)}
+            aria-label={`Visualizer: ${VISUALIZER_STYLES[index]?.label}. Switch to ${next.label}`}
+            title={`Switch to ${next.label.toLowerCase()}`}
+            className={cx("flex h-9 w-20 items-center justify-center rounded-lg px-2 text-fg-brand-secondary hover:bg-gray-700", className)}
+        >
+            <canvas ref={canvasRef} aria-hidden="true" className="size-full" />
+        </button>
+    );
+};
@@ -0,0 +1,29 @@
+"use client";
+
+import { useMemo } from "react";
+import { useStore } from "@/hooks/use-store";
+import type { AssistantProvider } from "@/lib/radio/assistant";
+import { assistantSettingsStore } from "@/lib/radio/assistant";
+import { localAssistant } from "@/lib/radio/local-assistant";
+import { OpenAIAssistant } from "@/lib/radio/openai-assistant";
+
+/**
+ * The assistant the listener chose, with its settings persisted in the browser.
+ */
+export const useAssistant = () => {
+    const [settings, setSettings] = useStore(assistantSettingsStore);
+    const { provider: providerId, baseUrl, apiKey, model } = settings;
+
+    const provider = useMemo<AssistantProvider>(
+        () => (providerId === "openai" ? new OpenAIAssistant({ baseUrl, apiKey, model }) : localAssistant),
+        [providerId, baseUrl, apiKey, model],
+    );
+
+    return {
+        settings,
+        setSettings,
+        provider,
+        /** Whether replies come over the network, so they take a moment and can fail. */
+        isRemote: providerId !== "local",
+    };
+};
@@ -0,0 +1,24 @@
+"use client";
+
+import { useEffect } from "react";
+import { useStore } from "@/hooks/use-store";
+import { clampCrossfade, crossfadeStore } from "@/lib/radio/crossfade";
+import type { AudioEngine } from "@/lib/radio/player";
+
+/**
+ * How long switching stations crossfades, persisted in the browser and
+ * applied to the engine.
+ */
+export const useCrossfade = (engine: AudioEngine) => {
+    const [duration, setDuration] = useStore(crossfadeStore);
+
+    useEffect(() => {
+        engine.setCrossfade(duration);
+    }, [engine, duration]);
+
+    return {
+        /** In milliseconds. */
+        duration,
+        setDuration: (next: number) => setDuration(clampCrossfade(next)),
+    };
+};
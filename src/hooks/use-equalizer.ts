@@ -0,0 +1,43 @@
+"use client";
+
+import { useEffect } from "react";
+import { useStore } from "@/hooks/use-store";
+import type { EqualizerPresetId, EqualizerSettings } from "@/lib/radio/equalizer";
+import {
+    DEFAULT_EQUALIZER,
+    EQUALIZER_PRESETS,
+    EQ_RANGE,
+    equalizerStore,
+    getEqualizerPreset,
+    getStationEqualizer,
+    setStationEqualizer,
+} from "@/lib/radio/equalizer";
+import type { AudioEngine } from "@/lib/radio/player";
+
+/**
+ * The equalizer and night mode of the playing station, saved per station and
+ * applied to the engine's output whenever the station changes.
+ */
+export const useEqualizer = (engine: AudioEngine, station: string | null) => {
+    const [saved, setSaved] = useStore(equalizerStore);
+    const settings = station ? getStationEqualizer(saved, station) : DEFAULT_EQUALIZER;
+
+    useEffect(() => {
+        engine.output.setEqualizer(settings);
+    }, [engine, settings]);
+
+    const update = (change: Partial<EqualizerSettings>) => {
+        if (station) setSaved((current) => setStationEqualizer(current, station, { ...getStationEqualizer(current, station), ...change }));
+    };
+
+    return {
+        settings,
+        /** The preset the bands match, or null if they were edited by hand. */
+        preset: getEqualizerPreset(settings.gains),
+        /** Sets the gain of a band, in decibels. */
+        setGain: (band: number, gain: number) =>
+            update({ gains: settings.gains.map((current, index) => (index === band ? Math.min(EQ_RANGE, Math.max(-EQ_RANGE, gain)) : current)) }),
+        setPreset: (id: EqualizerPresetId) => update({ gains: EQUALIZER_PRESETS.find((preset) => preset.id === id)?.gains ?? DEFAULT_EQUALIZER.gains }),
+        setNightMode: (nightMode: boolean) => update({ nightMode }),
+    };
+};
@@ -0,0 +1,30 @@
+"use client";
+
+import { useStore } from "@/hooks/use-store";
+import { addFavorite, assignPreset, favoritesStore, getFavoriteId, getPresetStations, movePreset, removeFavorite } from "@/lib/radio/favorites";
+
+/**
+ * The listener's saved stations and presets, persisted in the browser.
+ */
+export const useFavorites = () => {
+    const [favorites, setFavorites] = useStore(favoritesStore);
+
+    const isFavorite = (name: string) => favorites.stations.some((favorite) => favorite.id === getFavoriteId(name));
+
+    return {
+        stations: favorites.stations,
+        presets: getPresetStations(favorites),
+        isFavorite,
+        /** Saves the station, unless it's already saved. */
+        addFavorite: (station: { name: string; url: string; hls?: boolean; favicon?: string }) => setFavorites((current) => addFavorite(current, station)),
+        /** Saves the station, or removes it if it's already saved. */
+        toggleFavorite: (station: { name: string; url: string; hls?: boolean; favicon?: string }) =>
+            setFavorites((current) => {
+                const id = getFavoriteId(station.name);
+                return current.stations.some((favorite) => favorite.id === id) ? removeFavorite(current, id) : addFavorite(current, station);
+            }),
+        removeFavorite: (id: string) => setFavorites((current) => removeFavorite(current, id)),
+        assignPreset: (slot: number, id: string | null) => setFavorites((current) => assignPreset(current, slot, id)),
+        movePreset: (from: number, to: number) => setFavorites((current) => movePreset(current, from, to)),
+    };
+};
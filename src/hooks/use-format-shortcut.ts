@@ -0,0 +1,24 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { formatShortcut } from "@/utils/format-shortcut";
+
+const subscribe = () => () => {};
+
+const getIsApple = () => /mac|iphone|ipad/i.test(navigator.userAgent);
+
+/**
+ * Checks whether the app runs on an Apple device, where `mod` stands for ⌘
+ * instead of Ctrl. The server render and hydration assume it does.
+ */
+export const useIsApple = () => useSyncExternalStore(subscribe, getIsApple, () => true);
+
+/**
+ * Returns a function that formats hotkeys for the current platform, e.g.
+ * `mod+k` as `⌘K` on Apple devices and `Ctrl+K` elsewhere.
+ */
+export const useFormatShortcut = () => {
+    const isApple = useIsApple();
+
+    return (hotkey: string) => formatShortcut(hotkey, isApple);
+};
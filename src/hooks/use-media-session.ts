@@ -0,0 +1,75 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { NowPlaying } from "@/lib/radio/icy";
+import { getMediaMetadata } from "@/lib/radio/media-session";
+import type { PlayerStream } from "@/lib/radio/player";
+
+interface MediaSessionOptions {
+    stream: PlayerStream | null;
+    track: NowPlaying | null;
+    isPlaying: boolean;
+    onPlay: () => void;
+    onPause: () => void;
+    onStop: () => void;
+    /** Switches to the previous station, or null if there's none to switch to. */
+    onPrevious: (() => void) | null;
+    onNext: (() => void) | null;
+}
+
+type Handlers = Pick<MediaSessionOptions, "onPlay" | "onPause" | "onStop" | "onPrevious" | "onNext">;
+
+const ACTIONS: [MediaSessionAction, keyof Handlers][] = [
+    ["play", "onPlay"],
+    ["pause", "onPause"],
+    ["stop", "onStop"],
+    ["previoustrack", "onPrevious"],
+    ["nexttrack", "onNext"],
+];
+
+const setActionHandler = (action: MediaSessionAction, handler: MediaSessionActionHandler | null) => {
+    try {
+        navigator.mediaSession.setActionHandler(action, handler);
+    } catch {
+        // Browsers throw for actions they don't support.
+    }
+};
+
+/**
+ * Keeps the operating system's media controls, e.g. on the lock screen, in
+ * sync with the player and routes their buttons back to it.
+ */
+export const useMediaSession = ({ stream, track, isPlaying, ...handlers }: MediaSessionOptions) => {
+    const handlersRef = useRef(handlers);
+    const hasPrevious = handlers.onPrevious !== null;
+    const hasNext = handlers.onNext !== null;
+
+    useEffect(() => {
+        handlersRef.current = handlers;
+    });
+
+    useEffect(() => {
+        if (!("mediaSession" in navigator)) return;
+
+        navigator.mediaSession.metadata = stream ? new MediaMetadata(getMediaMetadata(stream, track)) : null;
+    }, [stream, track]);
+
+    useEffect(() => {
+        if (!("mediaSession" in navigator)) return;
+
+        navigator.mediaSession.playbackState = !stream ? "none" : isPlaying ? "playing" : "paused";
+    }, [stream, isPlaying]);
+
+    useEffect(() => {
+        if (!("mediaSession" in navigator)) return;
+
+        const available = { onPlay: true, onPause: true, onStop: true, onPrevious: hasPrevious, onNext: hasNext };
+
+        // Leaving out previous and next hides the buttons instead of showing ones that do nothing
+        for (const [action, name] of ACTIONS) {
+            setActionHandler(action, available[name] ? () => handlersRef.current[name]?.() : null);
+        }
+
+        return () => ACTIONS.forEach(([action]) => setActionHandler(action, null));
+    }, [hasPrevious, hasNext]);
+};
@@ -0,0 +1,52 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { IcyStationInfo, NowPlaying } from "@/lib/radio/icy";
+import { getMetadataUrl, rememberLiveStream } from "@/lib/radio/live-metadata";
+
+interface NowPlayingState {
+    /** Station details from the `icy-*` headers. */
+    station: IcyStationInfo | null;
+    /** The track currently on air, if the station announces it. */
+    track: NowPlaying | null;
+}
+
+const EMPTY_STATE: NowPlayingState = { station: null, track: null };
+
+/**
+ * Subscribes to live ICY "now playing" metadata for a stream. Stations that
+ * announce a track are remembered, so Live Radio can prefer them.
+ *
+ * @param streamUrl The stream being played. Only streams the proxy reads the metadata of have any. Pass null to unsubscribe.
+ * @returns The station details and the current track.
+ */
+export const useNowPlaying = (streamUrl: string | null): NowPlayingState => {
+    const [state, setState] = useState<NowPlayingState>(EMPTY_STATE);
+
+    useEffect(() => {
+        setState(EMPTY_STATE);
+
+        const metadataUrl = streamUrl && getMetadataUrl(streamUrl);
+        if (!streamUrl || !metadataUrl) return;
+
+        const source = new EventSource(metadataUrl);
+
+        source.addEventListener("station", (event) => {
+            const station = JSON.parse((event as MessageEvent<string>).data) as IcyStationInfo;
+            setState((prev) => ({ ...prev, station }));
+        });
+
+        source.addEventListener("track", (event) => {
+            const track = JSON.parse((event as MessageEvent<string>).data) as NowPlaying | null;
+            setState((prev) => ({ ...prev, track }));
+            if (track) rememberLiveStream(streamUrl);
+        });
+
+        // The stream has no metadata, but stays subscribed: a reconnect may land on one of the station's streams that does
+        source.addEventListener("unsupported", () => setState((prev) => ({ ...prev, track: null })));
+
+        return () => source.close();
+    }, [streamUrl]);
+
+    return state;
+};
@@ -0,0 +1,21 @@
+"use client";
+
+import { useEffect, useState, useSyncExternalStore } from "react";
+import { AudioEngine, IDLE_STATE } from "@/lib/radio/player";
+
+const getServerState = () => IDLE_STATE;
+
+/**
+ * Creates an audio engine for the component and subscribes to its state.
+ * Playback stops when the component unmounts.
+ *
+ * @returns The current player state and the engine that controls playback.
+ */
+export const usePlayer = () => {
+    const [engine] = useState(() => new AudioEngine());
+    const state = useSyncExternalStore(engine.subscribe, engine.getState, getServerState);
+
+    useEffect(() => () => engine.stop(), [engine]);
+
+    return { state, engine };
+};
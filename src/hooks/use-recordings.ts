@@ -0,0 +1,188 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useStore } from "@/hooks/use-store";
+import type { AudioEngine } from "@/lib/radio/player";
+import type { StreamHandle } from "@/lib/radio/probe";
+import type { Capture } from "@/lib/radio/recorder";
+import { RecordingError, captureElement, captureStream } from "@/lib/radio/recorder";
+import { deleteRecording, listRecordings, saveRecording, saveRecordingChunk } from "@/lib/radio/recording-db";
+import type { Recording, RecordingMethod } from "@/lib/radio/recordings";
+import { MAX_RECORDING_DURATION, getRecordingMethod, schedulesStore } from "@/lib/radio/recordings";
+
+/** How often progress is updated and schedules are checked, in milliseconds. */
+const TICK_INTERVAL = 1000;
+
+/** A recording that's still being captured, or that failed. */
+export interface ActiveRecording {
+    id: string;
+    station: string;
+    method: RecordingMethod;
+    startedAt: number;
+    /** How long to record at most, in milliseconds. */
+    duration: number;
+    /** How much audio was recorded so far, in bytes. */
+    bytes: number;
+    /** Why the recording failed, or null while it's running. */
+    error: string | null;
+}
+
+/** The station to record. */
+interface RecordingSource {
+    name: string;
+    url: string;
+    kind: StreamHandle["kind"];
+}
+
+interface RecordingHandlers {
+    /** Called when a recording was saved. */
+    onFinish: (recording: Recording) => void;
+    onError: (station: string, message: string) => void;
+}
+
+/**
+ * Records stations to audio files kept in the browser, starts scheduled
+ * recordings on time and stops recordings once they reach their length.
+ * Recordings only run while the app is open.
+ */
+export const useRecordings = (engine: AudioEngine, handlers: RecordingHandlers) => {
+    const [recordings, setRecordings] = useState<Recording[]>([]);
+    const [active, setActive] = useState<ActiveRecording[]>([]);
+    const [schedules, setSchedules] = useStore(schedulesStore);
+    const [now, setNow] = useState(() => Date.now());
+    const captures = useRef(new Map<string, Capture>());
+    const handlersRef = useRef(handlers);
+    const isRecording = active.some((recording) => recording.error === null);
+    const isActive = isRecording || schedules.length > 0;
+
+    useEffect(() => {
+        handlersRef.current = handlers;
+    });
+
+    useEffect(() => {
+        // Without IndexedDB, e.g. in some private windows, there's nothing saved to list
+        listRecordings()
+            .then((saved) => setRecordings((current) => [...current, ...saved.filter((recording) => !current.some(({ id }) => id === recording.id))]))
+            .catch(() => {});
+
+        const running = captures.current;
+        return () => running.forEach((capture) => capture.stop());
+    }, []);
+
+    useEffect(() => {
+        if (!isActive) return;
+
+        setNow(Date.now());
+        const interval = setInterval(() => setNow(Date.now()), TICK_INTERVAL);
+
+        return () => clearInterval(interval);
+    }, [isActive]);
+
+    useEffect(() => {
+        if (!isRecording) return;
+
+        // Leaving the page ends every recording in progress
+        const handleBeforeUnload = (event: BeforeUnloadEvent) => event.preventDefault();
+
+        window.addEventListener("beforeunload", handleBeforeUnload);
+        return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+    }, [isRecording]);
+
+    const startRecording = (source: RecordingSource, duration = MAX_RECORDING_DURATION) => {
+        const id = crypto.randomUUID();
+        const method = getRecordingMethod(source.kind);
+        const startedAt = Date.now();
+        let reportedAt = 0;
+
+        // Streams arrive in many small chunks, so the size shown is only updated once per tick
+        const onProgress = (bytes: number) => {
+            if (Date.now() - reportedAt < TICK_INTERVAL) return;
+
+            reportedAt = Date.now();
+            setActive((list) => list.map((recording) => (recording.id === id ? { ...recording, bytes } : recording)));
+        };
+        const audio = engine.audio;
+        // The audio goes to IndexedDB as it's recorded, rather than being held in memory until the end
+        let chunks = 0;
+        const write = (chunk: Blob) => saveRecordingChunk(id, chunks++, chunk).then(() => {});
+
+        const capture =
+            method === "stream"
+                ? captureStream(source.url, write, onProgress)
+                : audio
+                  ? captureElement(audio, write, onProgress)
+                  : { done: Promise.reject(new RecordingError(`Play ${source.name} to record it.`)), stop: () => {} };
+
+        captures.current.set(id, capture);
+        setActive((list) => [...list, { id, station: source.name, method, startedAt, duration, bytes: 0, error: null }]);
+
+        capture.done
+            .then(async ({ type, size }) => {
+                if (size === 0) throw new RecordingError("Nothing was recorded.");
+
+                const recording: Recording = {
+                    id,
+                    station: source.name,
+                    startedAt,
+                    duration: Math.min(Date.now() - startedAt, duration),
+                    size,
+                    mimeType: type || "audio/mpeg",
+                };
+
+                await saveRecording(recording);
+                setActive((list) => list.filter((item) => item.id !== id));
+                setRecordings((list) => [recording, ...list]);
+                handlersRef.current.onFinish(recording);
+            })
+            .catch((error: unknown) => {
+                const message = error instanceof RecordingError ? error.message : "The recording couldn't be saved. The browser may be out of storage.";
+
+                // Drop the audio stored so far
+                deleteRecording(id).catch(() => {});
+                setActive((list) => list.map((recording) => (recording.id === id ? { ...recording, error: message } : recording)));
+                handlersRef.current.onError(source.name, message);
+            })
+            .finally(() => captures.current.delete(id));
+    };
+
+    useEffect(() => {
+        const time = Date.now();
+
+        for (const recording of active) {
+            if (recording.error === null && recording.startedAt + recording.duration <= time) captures.current.get(recording.id)?.stop();
+        }
+
+        // Read the store itself, so a schedule that was just started isn't started again
+        const due = schedulesStore.get().filter((schedule) => schedule.startsAt <= time);
+        if (due.length === 0) return;
+
+        setSchedules((list) => list.filter((schedule) => !due.some(({ id }) => id === schedule.id)));
+        // Scheduled stations are only known by their stream, which is copied through the proxy
+        due.forEach((schedule) =>
+            startRecording({ name: schedule.station, url: schedule.url, kind: "progressive" }, schedule.startsAt + schedule.duration - time),
+        );
+    }, [now, active, setSchedules]);
+
+    return {
+        /** Saved recordings, newest first. */
+        recordings,
+        /** Recordings in progress and ones that failed. */
+        active,
+        /** Upcoming scheduled recordings, soonest first. */
+        schedules,
+        /** The time progress is computed from, updated every second. */
+        now,
+        startRecording,
+        /** Stops a recording and saves what was recorded so far. */
+        stopRecording: (id: string) => captures.current.get(id)?.stop(),
+        /** Removes a failed recording from the list. */
+        dismissRecording: (id: string) => setActive((list) => list.filter((recording) => recording.id !== id)),
+        deleteRecording: async (id: string) => {
+            await deleteRecording(id);
+            setRecordings((list) => list.filter((recording) => recording.id !== id));
+        },
+        scheduleRecording: (station: string, url: string, startsAt: number, duration: number) =>
+            setSchedules((list) => [...list, { id: crypto.randomUUID(), station, url, startsAt, duration }].sort((a, b) => a.startsAt - b.startsAt)),
+        cancelScheduledRecording: (id: string) => setSchedules((list) => list.filter((schedule) => schedule.id !== id)),
+    };
+};
@@ -0,0 +1,42 @@
+"use client";
+
+import { useCallback, useRef } from "react";
+import { useHotkeys } from "react-hotkeys-hook";
+import { useFormatShortcut } from "@/hooks/use-format-shortcut";
+
+/**
+ * Binds a hotkey that focuses a search input.
+ *
+ * Navigations render the same search input in their desktop and mobile
+ * layouts, so every input the returned ref is attached to is tracked and the
+ * visible one is focused.
+ *
+ * @param hotkey The hotkey in react-hotkeys-hook syntax, or false to not bind one.
+ * @returns The ref for the input and the shortcut label to show in it.
+ */
+export const useSearchShortcut = (hotkey: string | false) => {
+    const inputs = useRef(new Set<HTMLInputElement>());
+    const formatShortcut = useFormatShortcut();
+
+    useHotkeys(
+        hotkey || "",
+        () => {
+            const input = [...inputs.current].find((element) => element.getClientRects().length > 0);
+
+            input?.focus();
+            input?.select();
+        },
+        { enabled: Boolean(hotkey), enableOnFormTags: true, preventDefault: true, description: "Search" },
+    );
+
+    const ref = useCallback((input: HTMLInputElement | null) => {
+        if (!input) return;
+
+        inputs.current.add(input);
+        return () => {
+            inputs.current.delete(input);
+        };
+    }, []);
+
+    return { ref, shortcut: hotkey ? formatShortcut(hotkey) : false };
+};
@@ -0,0 +1,53 @@
+"use client";
+
+import { useEffect, useMemo } from "react";
+import type { HotkeyCallback } from "react-hotkeys-hook";
+import { useHotkeys, useHotkeysContext } from "react-hotkeys-hook";
+import { useIsApple } from "@/hooks/use-format-shortcut";
+import type { ShortcutId } from "@/lib/radio/shortcuts";
+import { SHORTCUTS, getShortcutConflicts } from "@/lib/radio/shortcuts";
+
+/** Elements that space presses, so it shouldn't also toggle playback. */
+const PRESSABLE_SELECTOR = 'button, a[href], summary, [role="button"], [role="link"], [role="checkbox"], [role="switch"], [role="tab"]';
+
+const isPressable = (event: KeyboardEvent) => event.target instanceof Element && event.target.closest(PRESSABLE_SELECTOR) !== null;
+
+/**
+ * Binds one of the player's shortcuts. Unless the shortcut works while typing,
+ * it's ignored while a text field like the chat input has focus. Space is left
+ * to the focused button, so it presses the button instead of toggling playback.
+ *
+ * @param id The shortcut to bind.
+ * @param callback Called when the shortcut is pressed.
+ * @param enabled Whether the shortcut is bound. Disabled shortcuts aren't listed in the shortcuts overlay.
+ */
+export const useShortcut = (id: ShortcutId, callback: HotkeyCallback, enabled = true) => {
+    const shortcut = SHORTCUTS[id];
+    const whileTyping = "whileTyping" in shortcut && shortcut.whileTyping;
+
+    useHotkeys(shortcut.keys, callback, {
+        enabled,
+        description: shortcut.description,
+        preventDefault: true,
+        enableOnFormTags: whileTyping,
+        ignoreEventWhen: shortcut.keys.includes("space") ? isPressable : undefined,
+    });
+};
+
+/**
+ * Returns the registered hotkeys and the ones that conflict with another
+ * binding, which are reported in development.
+ */
+export const useShortcutConflicts = () => {
+    const { hotkeys } = useHotkeysContext();
+    const isApple = useIsApple();
+    const conflicts = useMemo(() => getShortcutConflicts(hotkeys, isApple), [hotkeys, isApple]);
+
+    useEffect(() => {
+        if (process.env.NODE_ENV !== "production" && conflicts.size > 0) {
+            console.warn(`Conflicting keyboard shortcuts: ${[...conflicts].join(", ")}. Only one of the bindings for the same keys works.`);
+        }
+    }, [conflicts]);
+
+    return { hotkeys, conflicts };
+};
@@ -0,0 +1,16 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import type { Store } from "@/lib/radio/storage";
+
+/**
+ * Subscribes to a persisted store. The server render and hydration use the
+ * store's initial value; the stored value follows right after.
+ *
+ * @returns The current value and the store's setter.
+ */
+export const useStore = <T>(store: Store<T>) => {
+    const value = useSyncExternalStore(store.subscribe, store.get, () => store.initial);
+
+    return [value, store.set] as const;
+};
@@ -0,0 +1,49 @@
+"use client";
+
+import { useState } from "react";
+import { useStore } from "@/hooks/use-store";
+import type { ChatMessage } from "@/lib/radio/threads";
+import { deleteThread, getActiveThread, renameThread, saveThreadMessages, threadsStore } from "@/lib/radio/threads";
+
+const NO_MESSAGES: ChatMessage[] = [];
+
+/**
+ * The listener's conversations, persisted in the browser, and the messages of
+ * the open one.
+ */
+export const useThreads = () => {
+    const [threads, setThreads] = useStore(threadsStore);
+    // A new chat gets its id up front but is only saved once it has messages
+    const [draftId, setDraftId] = useState(() => crypto.randomUUID());
+    const threadId = threads.activeId ?? draftId;
+
+    const startNewChat = () => {
+        setThreads((current) => ({ ...current, activeId: null }));
+        setDraftId(crypto.randomUUID());
+    };
+
+    return {
+        threads: threads.threads,
+        activeId: threads.activeId,
+        messages: getActiveThread(threads)?.messages ?? NO_MESSAGES,
+        /**
+         * Updates the messages of the thread that was open when this render
+         * happened, so replies that arrive after switching threads still land
+         * in the right one.
+         */
+        setMessages: (update: (messages: ChatMessage[]) => ChatMessage[]) =>
+            setThreads((current) => {
+                const thread = current.threads.find((other) => other.id === threadId);
+                const saved = saveThreadMessages(current, threadId, update(thread?.messages ?? []));
+
+                return thread || current.activeId !== null ? saved : { ...saved, activeId: threadId };
+            }),
+        openThread: (id: string) => setThreads((current) => ({ ...current, activeId: id })),
+        startNewChat,
+        renameThread: (id: string, title: string) => setThreads((current) => renameThread(current, id, title)),
+        deleteThread: (id: string) => {
+            if (id === threads.activeId) startNewChat();
+            setThreads((current) => deleteThread(current, id));
+        },
+    };
+};
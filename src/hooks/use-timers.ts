@@ -0,0 +1,79 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useStore } from "@/hooks/use-store";
+import type { AudioEngine } from "@/lib/radio/player";
+import { SNOOZE_DURATION, getTimerGain, timersStore } from "@/lib/radio/timers";
+
+/** How often countdowns and fades are updated, in milliseconds. */
+const TICK_INTERVAL = 1000;
+
+interface TimerHandlers {
+    /** Called when the sleep timer has stopped the player. */
+    onSleep: () => void;
+    /** Called when an alarm goes off, to start its station. */
+    onAlarm: (station: string) => void;
+}
+
+/**
+ * The sleep timer and the wake-up alarm, persisted in the browser so they
+ * survive a reload. While one is set, the hook re-renders every second to
+ * drive countdowns and volume fades.
+ */
+export const useTimers = (engine: AudioEngine, handlers: TimerHandlers) => {
+    const [timers, setTimers] = useStore(timersStore);
+    const [now, setNow] = useState(() => Date.now());
+    const handlersRef = useRef(handlers);
+    const isActive = timers.sleep !== null || timers.alarm !== null;
+
+    useEffect(() => {
+        handlersRef.current = handlers;
+    });
+
+    useEffect(() => {
+        if (!isActive) return;
+
+        setNow(Date.now());
+        const interval = setInterval(() => setNow(Date.now()), TICK_INTERVAL);
+
+        return () => clearInterval(interval);
+    }, [isActive]);
+
+    useEffect(() => {
+        // Read the store itself, since a timer that fired is cleared before this render's value catches up
+        const current = timersStore.get();
+        const time = Date.now();
+
+        if (current.sleep && current.sleep.endsAt <= time) {
+            engine.stop();
+            setTimers((value) => ({ ...value, sleep: null }));
+            handlersRef.current.onSleep();
+        }
+
+        if (current.alarm && current.alarm.ringingSince === null && current.alarm.at <= time) {
+            const { station } = current.alarm;
+
+            setTimers((value) => (value.alarm ? { ...value, alarm: { ...value.alarm, ringingSince: time } } : value));
+            handlersRef.current.onAlarm(station);
+        }
+
+        engine.setGain(getTimerGain(timersStore.get(), time));
+    }, [engine, timers, now, setTimers]);
+
+    return {
+        sleep: timers.sleep,
+        alarm: timers.alarm,
+        /** The time the countdowns are computed from, updated every second. */
+        now,
+        setSleepTimer: (minutes: number) => setTimers((value) => ({ ...value, sleep: { endsAt: Date.now() + minutes * 60000 } })),
+        cancelSleepTimer: () => setTimers((value) => ({ ...value, sleep: null })),
+        setAlarm: (at: number, station: string) => setTimers((value) => ({ ...value, alarm: { at, station, ringingSince: null } })),
+        /** Cancels the alarm, or turns it off while it's ringing. The station keeps playing. */
+        dismissAlarm: () => setTimers((value) => ({ ...value, alarm: null })),
+        /** Stops the ringing alarm and lets it go off again in a few minutes. */
+        snoozeAlarm: () => {
+            engine.stop();
+            setTimers((value) => (value.alarm ? { ...value, alarm: { ...value.alarm, at: Date.now() + SNOOZE_DURATION, ringingSince: null } } : value));
+        },
+    };
+};
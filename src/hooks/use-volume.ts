@@ -0,0 +1,30 @@
+"use client";
+
+import { useEffect } from "react";
+import { useStore } from "@/hooks/use-store";
+import type { AudioEngine } from "@/lib/radio/player";
+import { clampVolume, volumeStore } from "@/lib/radio/volume";
+
+/**
+ * The listener's volume and mute setting, persisted in the browser and applied
+ * to the engine.
+ */
+export const useVolume = (engine: AudioEngine) => {
+    const [volume, setVolume] = useStore(volumeStore);
+
+    useEffect(() => {
+        engine.setVolume(volume.muted ? 0 : volume.level);
+    }, [engine, volume]);
+
+    return {
+        level: volume.level,
+        muted: volume.muted,
+        /** Sets the volume, from 0 to 1, and unmutes. */
+        setLevel: (level: number) => {
+            const next = clampVolume(level);
+            setVolume({ level: next, muted: false });
+            return next;
+        },
+        setMuted: (muted: boolean) => setVolume((current) => ({ ...current, muted })),
+    };
+};
@@ -0,0 +1,109 @@
+import type { Station } from "./catalog";
+import type { NowPlaying } from "./icy";
+import type { Intent } from "./intents";
+import type { RadioModeId } from "./modes";
+import type { PlayerStatus } from "./player";
+import { asRecord, createStore } from "./storage";
+import type { ToolCallRequest } from "./tools";
+
+/** What the player is doing, as the assistant sees it. */
+export interface AssistantPlayerState {
+    /** The loaded station, playing or paused, or null if nothing is loaded. */
+    station: string | null;
+    status: PlayerStatus;
+    track: NowPlaying | null;
+    /** From 0 to 1. */
+    volume: number;
+    muted: boolean;
+}
+
+export interface AssistantRequest {
+    /** The conversation so far, ending with the listener's new message. */
+    messages: { role: "user" | "assistant"; content: string }[];
+    player: AssistantPlayerState;
+    mode: RadioModeId;
+    /** How many station candidates the last reply offered to pick from. */
+    candidateCount: number;
+}
+
+/**
+ * Something the chat does for the assistant: a player tool, or one of the
+ * commands that isn't a tool, like setting an alarm or showing help.
+ */
+export type AssistantAction = ToolCallRequest | Intent;
+
+export interface AssistantReply {
+    /** What the assistant says, or null if the actions speak for themselves. */
+    content: string | null;
+    /** Actions to run, in order, after the reply is shown. */
+    actions: AssistantAction[];
+}
+
+/**
+ * Answers the listener's messages. Providers only decide what to say and do;
+ * the chat runs the actions and shows their results, so every provider drives
+ * the player the same way.
+ */
+export interface AssistantProvider {
+    respond: (request: AssistantRequest, signal?: AbortSignal) => Promise<AssistantReply>;
+}
+
+export class AssistantError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "AssistantError";
+    }
+}
+
+/**
+ * Describes a catalog station in a line, e.g. "Kodai FM — 100.5 FM, Kodaikanal,
+ * Tamil, devotional and folk".
+ */
+export const describeStation = (station: Station) => {
+    const details = [station.frequency, station.city, station.language, station.genres.join(" and ")].filter(Boolean);
+
+    return details.length > 0 ? `${station.name} — ${details.join(", ")}` : station.name;
+};
+
+const readString = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : undefined);
+
+export type AssistantProviderId = "local" | "openai";
+
+export interface AssistantSettings {
+    provider: AssistantProviderId;
+    /** The OpenAI-compatible API root, e.g. `http://localhost:11434/v1`. */
+    baseUrl: string;
+    /** Sent as a bearer token; local model servers usually don't need one. */
+    apiKey: string;
+    model: string;
+}
+
+export const ASSISTANT_PROVIDERS: { id: AssistantProviderId; label: string; description: string }[] = [
+    { id: "local", label: "Built-in", description: "Understands commands and questions about the catalog, offline" },
+    { id: "openai", label: "OpenAI-compatible", description: "Any chat completions API with tool calling, e.g. a local model server" },
+];
+
+/**
+ * Set `NEXT_PUBLIC_ASSISTANT_BASE_URL` and `NEXT_PUBLIC_ASSISTANT_MODEL` to
+ * preset the remote provider, e.g. for a shared model server or a mock.
+ */
+export const DEFAULT_ASSISTANT_SETTINGS: AssistantSettings = {
+    provider: "local",
+    baseUrl: process.env.NEXT_PUBLIC_ASSISTANT_BASE_URL || "http://localhost:11434/v1",
+    apiKey: "",
+    model: process.env.NEXT_PUBLIC_ASSISTANT_MODEL || "llama3.2",
+};
+
+const parseSettings = (value: unknown): AssistantSettings | null => {
+    const record = asRecord(value);
+    if (!record || !ASSISTANT_PROVIDERS.some(({ id }) => id === record.provider)) return null;
+
+    return {
+        provider: record.provider as AssistantProviderId,
+        baseUrl: readString(record.baseUrl) ?? DEFAULT_ASSISTANT_SETTINGS.baseUrl,
+        apiKey: typeof record.apiKey === "string" ? record.apiKey : "",
+        model: readString(record.model) ?? DEFAULT_ASSISTANT_SETTINGS.model,
+    };
+};
+
+export const assistantSettingsStore = createStore("assistant", DEFAULT_ASSISTANT_SETTINGS, parseSettings);
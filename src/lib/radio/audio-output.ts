@@ -0,0 +1,203 @@
+import type { EqualizerSettings } from "./equalizer";
+import { DEFAULT_EQUALIZER, EQ_BANDS } from "./equalizer";
+
+/** How many samples the analyser reads at once; half as many frequency bins come out. */
+const ANALYSER_FFT_SIZE = 256;
+
+/** How quickly changed settings take effect, as a time constant in seconds. Instant changes click. */
+const SETTING_RAMP = 0.05;
+
+/** The compressor settings of night mode, which keeps loud and quiet passages close together. */
+const NIGHT_MODE = { threshold: -36, knee: 12, ratio: 8, attack: 0.005, release: 0.3 };
+
+/** How much night mode lifts the compressed sound back up, in decibels. */
+const NIGHT_MODE_MAKEUP = 9;
+
+const fromDecibels = (decibels: number) => 10 ** (decibels / 20);
+
+/** The nodes every routed element plays through, in order. */
+interface ProcessingChain {
+    /** Lowers the input by part of the highest boost, so boosted bands don't clip. */
+    headroom: GainNode;
+    filters: BiquadFilterNode[];
+    compressor: DynamicsCompressorNode;
+    makeup: GainNode;
+    analyser: AnalyserNode;
+    /** The listener's volume, shared by every element. It comes after the analyser, so the visualizer doesn't go quiet with it. */
+    volume: GainNode;
+}
+
+/** An element played through the processing chain, with its own gain to fade it in and out. */
+interface Route {
+    source: MediaElementAudioSourceNode;
+    fade: GainNode;
+}
+
+const createChain = (context: AudioContext): ProcessingChain => {
+    const chain: ProcessingChain = {
+        headroom: new GainNode(context),
+        filters: EQ_BANDS.map(({ frequency, type }) => new BiquadFilterNode(context, { frequency, type, Q: 1 })),
+        compressor: new DynamicsCompressorNode(context),
+        makeup: new GainNode(context),
+        analyser: new AnalyserNode(context, { fftSize: ANALYSER_FFT_SIZE, smoothingTimeConstant: 0.8 }),
+        volume: new GainNode(context),
+    };
+
+    const nodes: AudioNode[] = [chain.headroom, ...chain.filters, chain.compressor, chain.makeup, chain.analyser, chain.volume];
+    nodes.forEach((node, index) => node.connect(nodes[index + 1] ?? context.destination));
+
+    return chain;
+};
+
+/**
+ * Plays the player's audio elements through Web Audio, so what they play can
+ * be equalized, compressed and analysed. An element that's routed can't go
+ * back to playing on its own, and a suspended audio context silences it, so
+ * elements are only routed once the context actually runs.
+ *
+ * Volume and fades are applied here as well: routed elements fade on their own
+ * gain node, ramped by the audio clock, and elements that aren't routed fall
+ * back to their `volume`.
+ */
+export class AudioOutput {
+    private context: AudioContext | null = null;
+    private chain: ProcessingChain | null = null;
+    private equalizer = DEFAULT_EQUALIZER;
+    private volume = 1;
+    private readonly routes = new Map<HTMLMediaElement, Route>();
+    /** The level each element was last faded to, from 0 to 1. */
+    private readonly levels = new Map<HTMLMediaElement, number>();
+
+    /** The analyser every routed element plays through, or null until one was routed. */
+    get analyser() {
+        return this.chain?.analyser ?? null;
+    }
+
+    /**
+     * Creates the audio context, or resumes it after the browser suspended it.
+     *
+     * @returns The context, or null if it can't run, e.g. without a user gesture so far.
+     */
+    private async start() {
+        if (typeof AudioContext === "undefined") return null;
+
+        if (!this.context) {
+            this.context = new AudioContext();
+            this.chain = createChain(this.context);
+            this.chain.volume.gain.value = this.volume;
+            this.applyEqualizer();
+        }
+
+        if (this.context.state !== "running") await this.context.resume().catch(() => {});
+
+        return this.context.state === "running" ? this.context : null;
+    }
+
+    private applyEqualizer() {
+        if (!this.context || !this.chain) return;
+
+        const { currentTime } = this.context;
+        const { gains, nightMode } = this.equalizer;
+        const { headroom, filters, compressor, makeup } = this.chain;
+        const ramp = (param: AudioParam, value: number) => param.setTargetAtTime(value, currentTime, SETTING_RAMP);
+
+        filters.forEach((filter, index) => ramp(filter.gain, gains[index] ?? 0));
+        ramp(headroom.gain, fromDecibels(-Math.max(0, ...gains) / 2));
+
+        // A ratio of 1 leaves the sound as it is
+        ramp(compressor.threshold, nightMode ? NIGHT_MODE.threshold : 0);
+        ramp(compressor.knee, NIGHT_MODE.knee);
+        ramp(compressor.ratio, nightMode ? NIGHT_MODE.ratio : 1);
+        ramp(compressor.attack, NIGHT_MODE.attack);
+        ramp(compressor.release, NIGHT_MODE.release);
+        ramp(makeup.gain, fromDecibels(nightMode ? NIGHT_MODE_MAKEUP : 0));
+    }
+
+    /**
+     * Sets the equalizer and night mode. They only affect elements that are
+     * routed, but carry over to ones routed later.
+     */
+    setEqualizer(settings: EqualizerSettings) {
+        this.equalizer = settings;
+        this.applyEqualizer();
+    }
+
+    /**
+     * Sets the volume of every element, from 0 to 1.
+     */
+    setVolume(level: number) {
+        this.volume = level;
+
+        if (this.context && this.chain) {
+            this.chain.volume.gain.setTargetAtTime(level, this.context.currentTime, SETTING_RAMP);
+        }
+
+        this.levels.forEach((fade, audio) => {
+            if (!this.routes.has(audio)) audio.volume = level * fade;
+        });
+    }
+
+    /**
+     * Fades an element to a level, from 0 to 1, taking over from a fade in
+     * progress. Elements that aren't routed change level at once.
+     *
+     * @param duration How long the fade takes, in milliseconds.
+     */
+    fade(audio: HTMLMediaElement, level: number, duration = 0) {
+        const route = this.routes.get(audio);
+        this.levels.set(audio, level);
+
+        if (!route || !this.context) {
+            audio.volume = this.volume * level;
+            return;
+        }
+
+        const { currentTime } = this.context;
+        const { gain } = route.fade;
+
+        // Ramps start from the last scheduled value, so the current one is pinned first
+        gain.cancelScheduledValues(currentTime);
+        gain.setValueAtTime(gain.value, currentTime);
+        gain.linearRampToValueAtTime(level, currentTime + duration / 1000);
+    }
+
+    /**
+     * Routes an element through the processing chain. Elements loaded without
+     * CORS are left alone: the browser would only hand silence to Web Audio.
+     *
+     * @returns Whether the element plays through the chain.
+     */
+    async connect(audio: HTMLMediaElement) {
+        if (this.routes.has(audio)) return true;
+        if (audio.crossOrigin === null && new URL(audio.currentSrc || audio.src, location.href).origin !== location.origin) return false;
+
+        const context = await this.start();
+        if (!context || !this.chain || this.routes.has(audio)) return this.routes.has(audio);
+
+        try {
+            const source = context.createMediaElementSource(audio);
+            const fade = new GainNode(context, { gain: this.levels.get(audio) ?? 1 });
+
+            source.connect(fade).connect(this.chain.headroom);
+            this.routes.set(audio, { source, fade });
+            // The chain applies the volume from now on
+            audio.volume = 1;
+            return true;
+        } catch {
+            // The element is already routed through another context
+            return false;
+        }
+    }
+
+    /**
+     * Stops routing an element that's being destroyed.
+     */
+    disconnect(audio: HTMLMediaElement) {
+        const route = this.routes.get(audio);
+
+        route?.source.disconnect();
+        route?.fade.disconnect();
+        this.routes.delete(audio);
+        this.levels.delete(audio);
+    }
+}
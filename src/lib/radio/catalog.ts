@@ -0,0 +1,105 @@
+import catalogData from "./stations.json";
+
+/** The catalog file format version this module understands. */
+const CATALOG_VERSION = 1;
+
+export interface Station {
+    /** Stable identifier of the station, e.g. `kodai-fm`. */
+    id: string;
+    /** The name shown to listeners. */
+    name: string;
+    /** Lower-case names listeners might use to ask for the station. */
+    aliases: string[];
+    /** Stream URLs in the order they should be attempted. */
+    streams: string[];
+    /** The audio codec of the streams, e.g. `MP3` or `AAC`. */
+    codec: string | null;
+    /** The stream bitrate in kbps. */
+    bitrate: number | null;
+    language: string | null;
+    city: string | null;
+    /** ISO 3166-1 alpha-2 country code. */
+    country: string | null;
+    /** The broadcast frequency, e.g. `100.5 FM`. */
+    frequency: string | null;
+    genres: string[];
+    homepage: string | null;
+}
+
+interface CatalogFile {
+    version: number;
+    stations: Station[];
+}
+
+/**
+ * Normalizes a station name or query for lookups.
+ */
+export const normalizeStationName = (value: string) =>
+    value
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, " ")
+        .trim();
+
+const loadCatalog = (file: CatalogFile) => {
+    if (file.version !== CATALOG_VERSION) {
+        throw new Error(`Unsupported station catalog version ${file.version}, expected ${CATALOG_VERSION}.`);
+    }
+
+    const byId = new Map<string, Station>();
+    const byAlias = new Map<string, Station>();
+
+    for (const station of file.stations) {
+        if (byId.has(station.id)) {
+            throw new Error(`Duplicate station id "${station.id}" in the station catalog.`);
+        }
+
+        byId.set(station.id, station);
+
+        for (const alias of [station.name, ...station.aliases]) {
+            byAlias.set(normalizeStationName(alias), station);
+        }
+    }
+
+    return { stations: file.stations, byId, byAlias };
+};
+
+const catalog = loadCatalog(catalogData as CatalogFile);
+
+/**
+ * Returns every station in the catalog.
+ */
+export const getStations = (): readonly Station[] => catalog.stations;
+
+/**
+ * Looks up a station by its id.
+ */
+export const getStationById = (id: string) => catalog.byId.get(id) ?? null;
+
+/**
+ * Looks up a station by its id, name or one of its aliases.
+ */
+export const getStationByAlias = (query: string) => {
+    const normalized = normalizeStationName(query);
+
+    return catalog.byId.get(query) ?? catalog.byAlias.get(normalized) ?? null;
+};
+
+/** Words that can come with a station name without changing which station is meant, e.g. "the Kodai FM station". */
+const FILLER_WORDS = new Set(["the", "station", "channel", "stream", "live", "online"]);
+
+/**
+ * Finds the catalog station a free-form query refers to. The query has to be
+ * one of the station's aliases, apart from filler words like "the" or
+ * "station". Queries with any other words, e.g. "Capital FM Kenya" or
+ * "Classic FM Ireland", are a different station and are left to the directory search.
+ */
+export const matchStation = (query: string) => {
+    const exact = getStationByAlias(query);
+    if (exact) return exact;
+
+    const words = normalizeStationName(query)
+        .split(" ")
+        .filter((word) => !FILLER_WORDS.has(word));
+
+    return catalog.byAlias.get(words.join(" ")) ?? null;
+};
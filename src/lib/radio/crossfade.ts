@@ -0,0 +1,12 @@
+import { DEFAULT_CROSSFADE_DURATION } from "./player";
+import { createStore } from "./storage";
+
+/** The longest crossfade that can be set, in milliseconds. */
+export const MAX_CROSSFADE_DURATION = 10000;
+
+export const clampCrossfade = (duration: number) => Math.min(MAX_CROSSFADE_DURATION, Math.max(0, duration));
+
+const parseCrossfade = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? clampCrossfade(value) : null);
+
+/** How long switching stations crossfades, in milliseconds. */
+export const crossfadeStore = createStore("crossfade", DEFAULT_CROSSFADE_DURATION, parseCrossfade);
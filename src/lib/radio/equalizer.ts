@@ -0,0 +1,84 @@
+import { getFavoriteId } from "./favorites";
+import { asRecord, createStore } from "./storage";
+
+/** How far a band can be boosted or cut, in decibels. */
+export const EQ_RANGE = 12;
+
+/** The bands of the equalizer; the outer ones are shelves, so they also move everything beyond them. */
+export const EQ_BANDS: { frequency: number; type: BiquadFilterType; label: string }[] = [
+    { frequency: 60, type: "lowshelf", label: "60" },
+    { frequency: 230, type: "peaking", label: "230" },
+    { frequency: 910, type: "peaking", label: "910" },
+    { frequency: 3600, type: "peaking", label: "3.6k" },
+    { frequency: 14000, type: "highshelf", label: "14k" },
+];
+
+export type EqualizerPresetId = "flat" | "speech" | "music" | "bass";
+
+/** Gains of the bands, in decibels, from the lowest to the highest. */
+export const EQUALIZER_PRESETS: { id: EqualizerPresetId; label: string; gains: number[] }[] = [
+    { id: "flat", label: "Flat", gains: [0, 0, 0, 0, 0] },
+    { id: "speech", label: "Speech", gains: [-6, -2, 3, 4, -2] },
+    { id: "music", label: "Music", gains: [3, 1, -1, 1, 3] },
+    { id: "bass", label: "Bass boost", gains: [7, 4, 0, 0, 0] },
+];
+
+export interface EqualizerSettings {
+    /** Gains of the bands, in decibels, from the lowest to the highest. */
+    gains: number[];
+    /** Evens out loudness, so quiet stations and loud ones sound alike, e.g. at night. */
+    nightMode: boolean;
+}
+
+export const DEFAULT_EQUALIZER: EqualizerSettings = { gains: EQUALIZER_PRESETS[0].gains, nightMode: false };
+
+/**
+ * Returns the preset the gains match, or null if they were edited by hand.
+ */
+export const getEqualizerPreset = (gains: number[]) =>
+    EQUALIZER_PRESETS.find((preset) => preset.gains.every((gain, index) => gain === gains[index]))?.id ?? null;
+
+/**
+ * Returns the settings saved for a station, or the defaults.
+ */
+export const getStationEqualizer = (saved: Record<string, EqualizerSettings>, station: string) => saved[getFavoriteId(station)] ?? DEFAULT_EQUALIZER;
+
+/**
+ * Saves settings for a station. Stations set back to the defaults are dropped,
+ * so only the ones that were tuned take up storage.
+ */
+export const setStationEqualizer = (saved: Record<string, EqualizerSettings>, station: string, settings: EqualizerSettings) => {
+    const id = getFavoriteId(station);
+    const isDefault = !settings.nightMode && getEqualizerPreset(settings.gains) === "flat";
+
+    return isDefault ? Object.fromEntries(Object.entries(saved).filter(([key]) => key !== id)) : { ...saved, [id]: settings };
+};
+
+const clampGain = (gain: number) => Math.min(EQ_RANGE, Math.max(-EQ_RANGE, gain));
+
+const parseSettings = (value: unknown): EqualizerSettings | null => {
+    const record = asRecord(value);
+    const gains = record?.gains;
+
+    if (!record || !Array.isArray(gains) || gains.length !== EQ_BANDS.length) return null;
+    if (!gains.every((gain): gain is number => typeof gain === "number" && Number.isFinite(gain))) return null;
+
+    return { gains: gains.map(clampGain), nightMode: record.nightMode === true };
+};
+
+const parseEqualizers = (value: unknown) => {
+    const record = asRecord(value);
+    if (!record) return null;
+
+    const saved: Record<string, EqualizerSettings> = {};
+
+    for (const [id, settings] of Object.entries(record)) {
+        const parsed = parseSettings(settings);
+        if (parsed) saved[id] = parsed;
+    }
+
+    return saved;
+};
+
+/** Equalizer settings by station, keyed like favorites. */
+export const equalizerStore = createStore<Record<string, EqualizerSettings>>("equalizer", {}, parseEqualizers);
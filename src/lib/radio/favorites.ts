@@ -0,0 +1,125 @@
+import { normalizeStationName } from "./catalog";
+import { fromProxyUrl } from "./proxy";
+import { asRecord, createStore } from "./storage";
+
+/** How many numbered presets there are, played with the keys 1 to 9. */
+export const PRESET_SLOTS = 9;
+
+export interface FavoriteStation {
+    /** The normalized station name. */
+    id: string;
+    name: string;
+    /** The stream that played when the station was saved. */
+    url: string;
+    hls?: boolean;
+    favicon?: string;
+    /** When the station was saved, in milliseconds since the epoch. */
+    addedAt: number;
+}
+
+export interface Favorites {
+    stations: FavoriteStation[];
+    /** The favorite id in each preset slot, or null for an empty slot. */
+    presets: (string | null)[];
+}
+
+export const EMPTY_FAVORITES: Favorites = { stations: [], presets: Array(PRESET_SLOTS).fill(null) };
+
+/**
+ * Returns the id a station is saved under. Stations are identified by name, so
+ * the same station found through the catalog or Radio Browser is saved once.
+ */
+export const getFavoriteId = (name: string) => normalizeStationName(name);
+
+/**
+ * Saves a station and puts it in the first free preset slot, if there is one.
+ */
+export const addFavorite = (favorites: Favorites, station: { name: string; url: string; hls?: boolean; favicon?: string }): Favorites => {
+    const id = getFavoriteId(station.name);
+
+    if (favorites.stations.some((favorite) => favorite.id === id)) return favorites;
+
+    const favorite: FavoriteStation = {
+        id,
+        name: station.name,
+        url: fromProxyUrl(station.url),
+        hls: station.hls,
+        favicon: station.favicon,
+        addedAt: Date.now(),
+    };
+    const freeSlot = favorites.presets.indexOf(null);
+
+    return {
+        stations: [...favorites.stations, favorite],
+        presets: freeSlot === -1 ? favorites.presets : favorites.presets.map((preset, slot) => (slot === freeSlot ? id : preset)),
+    };
+};
+
+/**
+ * Removes a station from the favorites and from its preset slot.
+ */
+export const removeFavorite = (favorites: Favorites, id: string): Favorites => ({
+    stations: favorites.stations.filter((favorite) => favorite.id !== id),
+    presets: favorites.presets.map((preset) => (preset === id ? null : preset)),
+});
+
+/**
+ * Puts a favorite in a preset slot, or clears the slot. A favorite is only ever
+ * in one slot, so it leaves the slot it was in before.
+ *
+ * @param slot The zero-based slot index.
+ */
+export const assignPreset = (favorites: Favorites, slot: number, id: string | null): Favorites => ({
+    ...favorites,
+    presets: favorites.presets.map((preset, index) => (index === slot ? id : preset === id ? null : preset)),
+});
+
+/**
+ * Swaps two preset slots.
+ */
+export const movePreset = (favorites: Favorites, from: number, to: number): Favorites => {
+    if (to < 0 || to >= PRESET_SLOTS) return favorites;
+
+    const presets = [...favorites.presets];
+    [presets[from], presets[to]] = [presets[to], presets[from]];
+
+    return { ...favorites, presets };
+};
+
+/**
+ * Returns the station in every preset slot.
+ */
+export const getPresetStations = (favorites: Favorites) => favorites.presets.map((id) => favorites.stations.find((favorite) => favorite.id === id) ?? null);
+
+const parseFavorite = (value: unknown): FavoriteStation | null => {
+    const record = asRecord(value);
+
+    if (!record || typeof record.id !== "string" || typeof record.name !== "string" || typeof record.url !== "string") return null;
+
+    return {
+        id: record.id,
+        name: record.name,
+        url: record.url,
+        hls: record.hls === true || undefined,
+        favicon: typeof record.favicon === "string" ? record.favicon : undefined,
+        addedAt: typeof record.addedAt === "number" ? record.addedAt : 0,
+    };
+};
+
+const parseFavorites = (value: unknown): Favorites | null => {
+    const record = asRecord(value);
+
+    if (!record || !Array.isArray(record.stations) || !Array.isArray(record.presets)) return null;
+
+    const stored: unknown[] = record.presets;
+    const stations = record.stations.map(parseFavorite).filter((station) => station !== null);
+    const ids = new Set(stations.map((station) => station.id));
+    const presets = Array.from({ length: PRESET_SLOTS }, (_, slot) => {
+        const id = stored[slot];
+        return typeof id === "string" && ids.has(id) ? id : null;
+    });
+
+    return { stations, presets };
+};
+
+export const favoritesStore = createStore("favorites", EMPTY_FAVORITES, parseFavorites);
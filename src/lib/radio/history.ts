@@ -0,0 +1,159 @@
+import type { AudioEngine, PlayerState, PlayerStream } from "./player";
+import { asRecord, createStore } from "./storage";
+
+/** How many sessions are kept; older ones are dropped. */
+export const MAX_HISTORY_ENTRIES = 500;
+
+export interface HistoryEntry {
+    id: string;
+    station: string;
+    /** When playback was requested, in milliseconds since the epoch. */
+    startedAt: number;
+    /** How long the station actually played, in seconds. */
+    duration: number;
+    outcome: "played" | "failed";
+    /** The stream that worked, or null if none did. */
+    url: string | null;
+    /** Whether the stream that worked is HLS, so replaying it doesn't depend on its extension. */
+    hls?: boolean;
+    favicon?: string;
+}
+
+const parseEntry = (value: unknown): HistoryEntry | null => {
+    const record = asRecord(value);
+
+    if (
+        !record ||
+        typeof record.id !== "string" ||
+        typeof record.station !== "string" ||
+        typeof record.startedAt !== "number" ||
+        typeof record.duration !== "number" ||
+        (record.outcome !== "played" && record.outcome !== "failed")
+    ) {
+        return null;
+    }
+
+    return {
+        id: record.id,
+        station: record.station,
+        startedAt: record.startedAt,
+        duration: record.duration,
+        outcome: record.outcome,
+        url: typeof record.url === "string" ? record.url : null,
+        hls: record.hls === true || undefined,
+        favicon: typeof record.favicon === "string" ? record.favicon : undefined,
+    };
+};
+
+const parseHistory = (value: unknown) => (Array.isArray(value) ? value.map(parseEntry).filter((entry) => entry !== null) : null);
+
+/** Every playback session, newest first. */
+export const historyStore = createStore<HistoryEntry[]>("history", [], parseHistory);
+
+const saveEntry = (entry: HistoryEntry) =>
+    historyStore.set((entries) => [entry, ...entries.filter((existing) => existing.id !== entry.id)].slice(0, MAX_HISTORY_ENTRIES));
+
+const isPlaying = (state: PlayerState) => state.status === "playing";
+
+/** What's needed to play a stream again from the history. */
+const describeStream = (stream: PlayerStream) => ({ url: stream.url, hls: stream.kind === "hls" || undefined, favicon: stream.favicon });
+
+/**
+ * Logs every playback session of an engine to the history: one entry per
+ * station request, updated as the station plays so a closed tab still leaves
+ * an accurate record.
+ *
+ * @returns A function that stops recording.
+ */
+export const recordHistory = (engine: AudioEngine) => {
+    let entry: HistoryEntry | null = null;
+    /** When the current stretch of playback began, while playing. */
+    let playingSince: number | null = null;
+
+    const flush = () => {
+        if (!entry) return;
+
+        if (playingSince !== null) {
+            const now = Date.now();
+            entry = { ...entry, duration: entry.duration + Math.round((now - playingSince) / 1000) };
+            playingSince = now;
+        }
+
+        // Requests that were replaced before they resolved aren't worth remembering.
+        if (entry.url !== null || entry.outcome === "failed") saveEntry(entry);
+    };
+
+    const unsubscribe = engine.subscribe((state, event, previous) => {
+        if (isPlaying(previous) && !isPlaying(state)) {
+            flush();
+            playingSince = null;
+        }
+
+        switch (event.type) {
+            case "resolve":
+                flush();
+                entry = { id: crypto.randomUUID(), station: event.request.name, startedAt: Date.now(), duration: 0, outcome: "played", url: null };
+                break;
+            case "resolve_failed":
+                if (entry) entry = { ...entry, outcome: "failed" };
+                flush();
+                // The station that was on keeps playing, so it gets an entry of its own again
+                entry = event.fallback
+                    ? {
+                          id: crypto.randomUUID(),
+                          station: event.fallback.name,
+                          startedAt: Date.now(),
+                          duration: 0,
+                          outcome: "played",
+                          ...describeStream(event.fallback),
+                      }
+                    : null;
+                break;
+            case "resolved":
+                if (entry) entry = { ...entry, ...describeStream(event.stream) };
+                flush();
+                break;
+            case "stop":
+                entry = null;
+                break;
+        }
+
+        if (!isPlaying(previous) && isPlaying(state)) playingSince = Date.now();
+    });
+
+    const handlePageHide = () => flush();
+    window.addEventListener("pagehide", handlePageHide);
+
+    return () => {
+        flush();
+        unsubscribe();
+        window.removeEventListener("pagehide", handlePageHide);
+    };
+};
+
+/**
+ * Formats a duration in seconds as e.g. `1:05:09` or `4:02`.
+ */
+export const formatDuration = (seconds: number) => {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const rest = String(seconds % 60).padStart(2, "0");
+
+    return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${rest}` : `${minutes}:${rest}`;
+};
+
+/**
+ * Serializes history entries as CSV, for exporting.
+ */
+export const historyToCsv = (entries: HistoryEntry[]) => {
+    const escape = (value: string | number | null) => {
+        const text = String(value ?? "");
+        return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const rows = entries.map((entry) =>
+        [entry.station, new Date(entry.startedAt).toISOString(), entry.duration, entry.outcome, entry.url].map(escape).join(","),
+    );
+
+    return ["station,started_at,duration_seconds,outcome,stream_url", ...rows].join("\n");
+};
@@ -0,0 +1,286 @@
+import type { ErrorData, FragParsingMetadataData, HlsConfig, Loader, LoaderCallbacks, LoaderConfiguration, LoaderContext } from "hls.js";
+import type { NowPlaying } from "./icy";
+import { parseStreamTitle } from "./icy";
+import { fromProxyUrl, isProxyUrl, toProxyUrl } from "./proxy";
+
+const HLS_CONTENT_TYPES = ["application/vnd.apple.mpegurl", "application/x-mpegurl", "audio/mpegurl", "audio/x-mpegurl"];
+
+/** How many times in a row hls.js may recover from a fatal error before the stream counts as failed. */
+const MAX_RECOVERY_ATTEMPTS = 3;
+
+/**
+ * Checks whether a stream URL points at an HLS manifest, from its extension or,
+ * for proxied URLs, the extension of the upstream URL.
+ */
+export const isHlsUrl = (url: string) => /\.m3u8(?:$|[?#])/i.test(fromProxyUrl(url));
+
+/**
+ * Checks whether a codec label like Radio Browser's `codec` field marks an HLS stream.
+ */
+export const isHlsCodec = (codec: string | null | undefined) => !!codec && /\bhls\b/i.test(codec);
+
+/**
+ * Checks whether a response content type is an HLS manifest. `audio/x-mpegurl`
+ * is shared with plain M3U playlists, so the caller has to confirm with the
+ * manifest contents where that matters.
+ */
+export const isHlsContentType = (contentType: string | null | undefined) => {
+    const type = contentType?.split(";")[0].trim().toLowerCase();
+    return !!type && HLS_CONTENT_TYPES.includes(type);
+};
+
+/**
+ * Picks the variant to start with: the highest bitrate that fits within
+ * `maxBitrate`, or the lowest variant if none fits.
+ *
+ * @param levels The variants of the master playlist.
+ * @param maxBitrate The bandwidth budget in bits per second.
+ * @returns The index of the selected variant.
+ */
+export const selectVariant = (levels: { bitrate: number }[], maxBitrate: number) => {
+    let selected = -1;
+    let lowest = 0;
+
+    levels.forEach((level, index) => {
+        if (level.bitrate < levels[lowest].bitrate) lowest = index;
+        if (level.bitrate <= maxBitrate && (selected === -1 || level.bitrate > levels[selected].bitrate)) selected = index;
+    });
+
+    return selected === -1 ? lowest : selected;
+};
+
+/**
+ * Estimates the available bandwidth in bits per second from the Network
+ * Information API, falling back to a budget that suits audio streams.
+ */
+export const estimateBandwidth = () => {
+    const connection = (navigator as Navigator & { connection?: { downlink?: number; saveData?: boolean } }).connection;
+
+    if (connection?.saveData) return 64_000;
+    if (connection?.downlink) return connection.downlink * 1_000_000 * 0.8;
+
+    return 320_000;
+};
+
+const readSyncSafeInteger = (bytes: Uint8Array, offset: number) =>
+    ((bytes[offset] & 0x7f) << 21) | ((bytes[offset + 1] & 0x7f) << 14) | ((bytes[offset + 2] & 0x7f) << 7) | (bytes[offset + 3] & 0x7f);
+
+const readInteger = (bytes: Uint8Array, offset: number) =>
+    ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const decodeText = (encoding: number, bytes: Uint8Array) => {
+    const label = encoding === 1 ? "utf-16" : encoding === 2 ? "utf-16be" : encoding === 3 ? "utf-8" : "latin1";
+    return new TextDecoder(label).decode(bytes).replace(/\0+$/, "").trim();
+};
+
+/**
+ * Reads the text frames of an ID3v2.3 or v2.4 tag, e.g. `TIT2` (title),
+ * `TPE1` (artist) and `TXXX` (user-defined, keyed by its description).
+ */
+export const parseId3 = (bytes: Uint8Array) => {
+    const frames: Record<string, string> = {};
+
+    // "ID3" header: 3 bytes magic, 2 bytes version, 1 byte flags, 4 bytes size.
+    if (bytes.length < 10 || bytes[0] !== 0x49 || bytes[1] !== 0x44 || bytes[2] !== 0x33) return frames;
+
+    const version = bytes[3];
+    if (version !== 3 && version !== 4) return frames;
+
+    // The tag size is syncsafe in both versions, frame sizes only since v2.4.
+    const readFrameSize = version === 4 ? readSyncSafeInteger : readInteger;
+    const end = Math.min(bytes.length, 10 + readSyncSafeInteger(bytes, 6));
+    let offset = 10;
+
+    // The extended header counts its own size field in v2.4, but not in v2.3
+    if (bytes[5] & 0x40) {
+        offset += version === 4 ? readSyncSafeInteger(bytes, offset) : 4 + readInteger(bytes, offset);
+    }
+
+    while (offset + 10 <= end) {
+        const id = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+        const size = readFrameSize(bytes, offset + 4);
+
+        if (!/^[A-Z0-9]{4}$/.test(id) || size <= 0) break;
+
+        const body = bytes.subarray(offset + 10, offset + 10 + size);
+
+        if (id === "TXXX") {
+            const [description, value] = decodeText(body[0], body.subarray(1)).split("\0");
+            if (description) frames[description] = value?.trim() ?? "";
+        } else if (id.startsWith("T")) {
+            frames[id] = decodeText(body[0], body.subarray(1));
+        }
+
+        offset += 10 + size;
+    }
+
+    return frames;
+};
+
+/**
+ * Turns the text frames of an ID3 tag into a now-playing track.
+ */
+export const id3ToNowPlaying = (frames: Record<string, string>): NowPlaying | null => {
+    if (frames.TIT2) {
+        const artist = frames.TPE1 || null;
+        return { streamTitle: artist ? `${artist} - ${frames.TIT2}` : frames.TIT2, artist, title: frames.TIT2 };
+    }
+
+    // Some broadcasters forward their ICY title as a user-defined frame.
+    return parseStreamTitle(frames.StreamTitle);
+};
+
+export interface HlsSession {
+    /** Rejects if the stream can't be loaded at all, e.g. the manifest is missing. */
+    failed: Promise<never>;
+    destroy: () => void;
+}
+
+export interface AttachHlsOptions {
+    /** The bandwidth budget for variant selection, in bits per second. */
+    maxBitrate?: number;
+    /** Called with every track announced by the stream's timed ID3 metadata. */
+    onMetadata: (track: NowPlaying) => void;
+}
+
+/**
+ * Plays an HLS stream on an audio element. Safari plays HLS natively; other
+ * browsers go through hls.js and Media Source Extensions. Proxied manifests
+ * have every playlist and segment request routed through the stream proxy.
+ *
+ * @throws {Error} If the browser supports neither native HLS nor Media Source Extensions.
+ */
+export const attachHls = async (
+    audio: HTMLAudioElement,
+    url: string,
+    { maxBitrate = estimateBandwidth(), onMetadata }: AttachHlsOptions,
+): Promise<HlsSession> => {
+    const proxied = isProxyUrl(url);
+    const upstreamUrl = fromProxyUrl(url);
+    const { default: Hls } = await import("hls.js");
+
+    if (!Hls.isSupported()) {
+        if (!audio.canPlayType("application/vnd.apple.mpegurl")) {
+            throw new Error("This browser can't play HLS streams.");
+        }
+
+        return attachNativeHls(audio, url, onMetadata);
+    }
+
+    const hls = new Hls({ lowLatencyMode: false, loader: proxied ? createProxyLoader(Hls.DefaultConfig.loader) : Hls.DefaultConfig.loader });
+
+    let rejectFailed: (error: Error) => void = () => {};
+    const failed = new Promise<never>((_, reject) => (rejectFailed = reject));
+    // Nobody may be listening once playback is up and running.
+    failed.catch(() => {});
+
+    const pendingTracks: { pts: number; track: NowPlaying }[] = [];
+    let recoveryAttempts = 0;
+
+    hls.on(Hls.Events.MANIFEST_PARSED, (_event, data) => {
+        const level = selectVariant(data.levels, maxBitrate);
+        hls.startLevel = level;
+        hls.autoLevelCapping = level;
+    });
+
+    hls.on(Hls.Events.FRAG_PARSING_METADATA, (_event, data: FragParsingMetadataData) => {
+        for (const sample of data.samples) {
+            const track = id3ToNowPlaying(parseId3(sample.data));
+            if (track) pendingTracks.push({ pts: sample.pts, track });
+        }
+    });
+
+    // Segments coming in again mean the stream has recovered
+    hls.on(Hls.Events.FRAG_BUFFERED, () => (recoveryAttempts = 0));
+
+    hls.on(Hls.Events.ERROR, (_event, data: ErrorData) => {
+        if (!data.fatal) return;
+
+        const canRecover = recoveryAttempts < MAX_RECOVERY_ATTEMPTS;
+
+        if (audio.readyState === 0) {
+            rejectFailed(new Error(data.details));
+        } else if (canRecover && data.type === Hls.ErrorTypes.NETWORK_ERROR) {
+            recoveryAttempts += 1;
+            hls.startLoad();
+        } else if (canRecover && data.type === Hls.ErrorTypes.MEDIA_ERROR) {
+            recoveryAttempts += 1;
+            hls.recoverMediaError();
+        } else {
+            // The player reconnects, moving on to the station's next stream if this one keeps failing
+            audio.dispatchEvent(new Event("error"));
+        }
+    });
+
+    // Metadata is timed to the media timeline, so announce tracks as playback reaches them.
+    const handleTimeUpdate = () => {
+        while (pendingTracks.length > 0 && pendingTracks[0].pts <= audio.currentTime) {
+            onMetadata(pendingTracks.shift()!.track);
+        }
+    };
+
+    audio.addEventListener("timeupdate", handleTimeUpdate);
+    hls.loadSource(upstreamUrl);
+    hls.attachMedia(audio);
+
+    return {
+        failed,
+        destroy: () => {
+            audio.removeEventListener("timeupdate", handleTimeUpdate);
+            hls.destroy();
+        },
+    };
+};
+
+/**
+ * Wraps the hls.js loader so every playlist and segment request goes through
+ * the stream proxy. Responses report the upstream URL, so relative segment
+ * URLs keep resolving against the station's server rather than the proxy.
+ */
+const createProxyLoader = (BaseLoader: HlsConfig["loader"]) =>
+    class ProxyLoader extends BaseLoader implements Loader<LoaderContext> {
+        load(context: LoaderContext, config: LoaderConfiguration, callbacks: LoaderCallbacks<LoaderContext>) {
+            super.load({ ...context, url: toProxyUrl(context.url) }, config, {
+                ...callbacks,
+                onSuccess: (response, stats, _context, networkDetails) => {
+                    const url = networkDetails instanceof XMLHttpRequest ? networkDetails.getResponseHeader("X-Stream-Url") : null;
+                    callbacks.onSuccess({ ...response, url: url ?? context.url }, stats, context, networkDetails);
+                },
+            });
+        }
+    };
+
+const attachNativeHls = (audio: HTMLAudioElement, url: string, onMetadata: (track: NowPlaying) => void): HlsSession => {
+    const handleCueChange = (event: Event) => {
+        const cues = (event.target as TextTrack).activeCues ?? [];
+        const frames: Record<string, string> = {};
+
+        for (const cue of Array.from(cues)) {
+            const value = (cue as TextTrackCue & { value?: { key: string; data: unknown } }).value;
+            if (value && typeof value.data === "string") frames[value.key] = value.data;
+        }
+
+        const track = id3ToNowPlaying(frames);
+        if (track) onMetadata(track);
+    };
+
+    const handleAddTrack = (event: TrackEvent) => {
+        const track = event.track as TextTrack | null;
+        if (track?.kind !== "metadata") return;
+
+        track.mode = "hidden";
+        track.addEventListener("cuechange", handleCueChange);
+    };
+
+    audio.textTracks.addEventListener("addtrack", handleAddTrack);
+    audio.src = url;
+
+    return {
+        failed: new Promise<never>(() => {}),
+        destroy: () => {
+            audio.textTracks.removeEventListener("addtrack", handleAddTrack);
+            audio.removeAttribute("src");
+            audio.load();
+        },
+    };
+};
@@ -0,0 +1,124 @@
+import type { IcyStationInfo, NowPlaying } from "./icy";
+import { createIcyDemuxer, parseStreamTitle, readIcyHeaders } from "./icy";
+
+export type IcyEvent = { type: "station"; station: IcyStationInfo } | { type: "track"; track: NowPlaying | null } | { type: "unsupported" };
+
+/**
+ * The metadata of one listener's stream. Late subscribers are sent what's
+ * known so far, so it doesn't matter whether the audio or the events
+ * connect first.
+ */
+interface Channel {
+    station: IcyStationInfo | null;
+    track: NowPlaying | null;
+    unsupported: boolean;
+    subscribers: Set<(event: IcyEvent) => void>;
+    /** How many proxied streams are publishing to the channel, e.g. two while reconnecting. */
+    streams: number;
+}
+
+/**
+ * Kept on `globalThis`, since every route is bundled with its own copy of
+ * this module and they have to share the channels.
+ */
+const globalChannels = globalThis as typeof globalThis & { icyChannels?: Map<string, Channel> };
+const channels = (globalChannels.icyChannels ??= new Map());
+
+const getChannel = (listener: string) => {
+    let channel = channels.get(listener);
+
+    if (!channel) {
+        channel = { station: null, track: null, unsupported: false, subscribers: new Set(), streams: 0 };
+        channels.set(listener, channel);
+    }
+
+    return channel;
+};
+
+const prune = (listener: string, channel: Channel) => {
+    if (channel.streams === 0 && channel.subscribers.size === 0 && channels.get(listener) === channel) channels.delete(listener);
+};
+
+const publish = (channel: Channel, event: IcyEvent) => {
+    if (event.type === "station") channel.station = event.station;
+    if (event.type === "track") channel.track = event.track;
+    if (event.type === "unsupported") {
+        channel.unsupported = true;
+        channel.track = null;
+    }
+
+    channel.subscribers.forEach((subscriber) => subscriber(event));
+};
+
+/**
+ * Checks whether a listener ID is safe to use as a channel name, i.e. a UUID.
+ */
+export const isListenerId = (value: string | null): value is string => value !== null && /^[0-9a-f-]{36}$/i.test(value);
+
+/**
+ * Strips the ICY metadata from a stream requested with `Icy-MetaData: 1` and
+ * publishes it to the listener's channel, so the proxy connection the player
+ * already has is the only one to the station.
+ *
+ * @param signal Aborts when the listener disconnects.
+ * @returns The audio, without the interleaved metadata blocks.
+ */
+export const demuxIcyStream = (listener: string, response: Response, body: ReadableStream<Uint8Array>, signal: AbortSignal) => {
+    const channel = getChannel(listener);
+    const metaint = Number.parseInt(response.headers.get("icy-metaint") ?? "", 10);
+    let released = false;
+
+    const release = () => {
+        if (released) return;
+
+        released = true;
+        channel.streams -= 1;
+        prune(listener, channel);
+    };
+
+    channel.streams += 1;
+    signal.addEventListener("abort", release);
+    publish(channel, { type: "station", station: readIcyHeaders(response.headers) });
+
+    // The channel lives as long as the stream, whether it has metadata or not
+    const done = new TransformStream<Uint8Array, Uint8Array>({ flush: release });
+
+    if (!Number.isFinite(metaint) || metaint <= 0) {
+        publish(channel, { type: "unsupported" });
+        return body.pipeThrough(done);
+    }
+
+    // A reconnect may have landed on a stream of the station that does send metadata; subscribers stay for it
+    channel.unsupported = false;
+
+    let lastTitle = channel.track?.streamTitle;
+    const demuxer = createIcyDemuxer(metaint, (metadata) => {
+        if (metadata.StreamTitle === lastTitle) return;
+
+        lastTitle = metadata.StreamTitle;
+        publish(channel, { type: "track", track: parseStreamTitle(lastTitle) });
+    });
+
+    return body.pipeThrough(demuxer).pipeThrough(done);
+};
+
+/**
+ * Subscribes to the metadata of a listener's stream. What's known so far is
+ * sent right away.
+ *
+ * @returns A function that unsubscribes.
+ */
+export const subscribeIcyChannel = (listener: string, subscriber: (event: IcyEvent) => void) => {
+    const channel = getChannel(listener);
+
+    channel.subscribers.add(subscriber);
+
+    if (channel.station) subscriber({ type: "station", station: channel.station });
+    if (channel.track) subscriber({ type: "track", track: channel.track });
+    if (channel.unsupported) subscriber({ type: "unsupported" });
+
+    return () => {
+        channel.subscribers.delete(subscriber);
+        prune(listener, channel);
+    };
+};
@@ -0,0 +1,125 @@
+/** Station details sent in the `icy-*` response headers of Icecast and Shoutcast servers. */
+export interface IcyStationInfo {
+    name: string | null;
+    genre: string | null;
+    /** Bitrate in kbps. */
+    bitrate: number | null;
+    url: string | null;
+    description: string | null;
+}
+
+export interface NowPlaying {
+    /** The raw `StreamTitle` value, usually "Artist - Title". */
+    streamTitle: string;
+    artist: string | null;
+    title: string;
+}
+
+/**
+ * Reads the `icy-*` station headers of an upstream response.
+ */
+export const readIcyHeaders = (headers: Headers): IcyStationInfo => {
+    const bitrate = Number.parseInt(headers.get("icy-br")?.split(",")[0] ?? "", 10);
+
+    return {
+        name: headers.get("icy-name")?.trim() || null,
+        genre: headers.get("icy-genre")?.trim() || null,
+        bitrate: Number.isFinite(bitrate) && bitrate > 0 ? bitrate : null,
+        url: headers.get("icy-url")?.trim() || null,
+        description: headers.get("icy-description")?.trim() || null,
+    };
+};
+
+/**
+ * Parses an ICY metadata block like `StreamTitle='Artist - Title';StreamUrl='';`
+ * into its key-value pairs. Values may themselves contain quotes.
+ */
+export const parseIcyMetadata = (block: string) => {
+    const metadata: Record<string, string> = {};
+    const text = block.replace(/\0+$/, "");
+
+    for (const [, key, value] of text.matchAll(/(\w+)='([\s\S]*?)';(?=\w+=|\s*$)/g)) {
+        metadata[key] = value;
+    }
+
+    return metadata;
+};
+
+/**
+ * Splits a `StreamTitle` into artist and title. Returns null for empty titles.
+ */
+export const parseStreamTitle = (streamTitle: string | undefined): NowPlaying | null => {
+    const trimmed = streamTitle?.trim();
+    if (!trimmed) return null;
+
+    const separator = trimmed.indexOf(" - ");
+
+    if (separator <= 0) return { streamTitle: trimmed, artist: null, title: trimmed };
+
+    return { streamTitle: trimmed, artist: trimmed.slice(0, separator).trim(), title: trimmed.slice(separator + 3).trim() };
+};
+
+/**
+ * Formats a track as "Title — Artist" for display.
+ */
+export const formatNowPlaying = (track: NowPlaying) => (track.artist ? `${track.title} — ${track.artist}` : track.title);
+
+const decodeMetadata = (bytes: Uint8Array) => {
+    try {
+        return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    } catch {
+        // Older Shoutcast servers send Latin-1.
+        return new TextDecoder("latin1").decode(bytes);
+    }
+};
+
+/**
+ * Creates a transform stream that separates the metadata blocks an ICY server
+ * interleaves into the stream every `metaint` bytes from the audio. Audio
+ * passes through untouched and every metadata block is handed to `onMetadata`.
+ */
+export const createIcyDemuxer = (metaint: number, onMetadata: (metadata: Record<string, string>) => void) => {
+    // Bytes of audio left before the next metadata length byte.
+    let audioRemaining = metaint;
+    // Bytes of the current metadata block left to read, or -1 while waiting for the length byte.
+    let metadataRemaining = -1;
+    let metadata: Uint8Array = new Uint8Array(0);
+    let metadataOffset = 0;
+
+    return new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            let offset = 0;
+
+            while (offset < chunk.length) {
+                if (audioRemaining > 0) {
+                    const length = Math.min(audioRemaining, chunk.length - offset);
+                    controller.enqueue(chunk.subarray(offset, offset + length));
+                    audioRemaining -= length;
+                    offset += length;
+                    continue;
+                }
+
+                if (metadataRemaining === -1) {
+                    metadataRemaining = chunk[offset] * 16;
+                    metadata = new Uint8Array(metadataRemaining);
+                    metadataOffset = 0;
+                    offset += 1;
+                } else {
+                    const length = Math.min(metadataRemaining, chunk.length - offset);
+                    metadata.set(chunk.subarray(offset, offset + length), metadataOffset);
+                    metadataOffset += length;
+                    metadataRemaining -= length;
+                    offset += length;
+                }
+
+                if (metadataRemaining === 0) {
+                    // Empty blocks mean the metadata hasn't changed.
+                    if (metadata.length > 0) onMetadata(parseIcyMetadata(decodeMetadata(metadata)));
+
+                    metadataRemaining = -1;
+                    audioRemaining = metaint;
+                }
+            }
+        },
+    });
+};
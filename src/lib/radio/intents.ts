@@ -0,0 +1,381 @@
+import { getStationByAlias } from "./catalog";
+
+/** How much "turn it up" and "quieter" change the volume by, as a fraction. */
+export const VOLUME_STEP = 0.1;
+
+export type Intent =
+    | { type: "play_station"; slots: { station: string } }
+    | { type: "play_filtered"; slots: { genre?: string; language?: string; country?: string } }
+    | { type: "search_stations"; slots: { query?: string; genre?: string; language?: string; country?: string } }
+    | { type: "select_candidate"; slots: { index: number } }
+    | { type: "pause"; slots: {} }
+    | { type: "resume"; slots: {} }
+    | { type: "stop"; slots: {} }
+    | { type: "volume_up"; slots: { step: number } }
+    | { type: "volume_down"; slots: { step: number } }
+    | { type: "volume_set"; slots: { level: number } }
+    | { type: "mute"; slots: { muted: boolean } }
+    | { type: "now_playing"; slots: {} }
+    /** Without a station, the one that's loaded is added. */
+    | { type: "add_favorite"; slots: { station?: string } }
+    | { type: "sleep_timer"; slots: { minutes: number } }
+    | { type: "cancel_sleep_timer"; slots: {} }
+    /** `hour` is on the 24-hour clock. */
+    | { type: "set_alarm"; slots: { hour: number; minute: number; station?: string } }
+    | { type: "cancel_alarm"; slots: {} }
+    | { type: "snooze"; slots: {} }
+    | { type: "help"; slots: {} }
+    | { type: "clarify"; slots: { question: string; suggestions: string[] } };
+
+export type IntentType = Intent["type"];
+
+export interface IntentContext {
+    /** Whether a station is loaded in the player, playing or paused. */
+    hasStation?: boolean;
+    /** How many station candidates the last reply offered to pick from. */
+    candidateCount?: number;
+}
+
+const LANGUAGES = [
+    "tamil",
+    "hindi",
+    "english",
+    "telugu",
+    "malayalam",
+    "kannada",
+    "bengali",
+    "marathi",
+    "punjabi",
+    "gujarati",
+    "urdu",
+    "sanskrit",
+    "spanish",
+    "french",
+    "german",
+    "italian",
+    "portuguese",
+    "arabic",
+    "japanese",
+    "korean",
+    "chinese",
+];
+
+const GENRES = [
+    "devotional",
+    "bhakti",
+    "carnatic",
+    "classical",
+    "bollywood",
+    "kollywood",
+    "jazz",
+    "blues",
+    "rock",
+    "metal",
+    "pop",
+    "indie",
+    "folk",
+    "country music",
+    "hip hop",
+    "rap",
+    "r&b",
+    "soul",
+    "reggae",
+    "dance",
+    "electronic",
+    "edm",
+    "house",
+    "techno",
+    "lofi",
+    "lo-fi",
+    "chill",
+    "ambient",
+    "oldies",
+    "retro",
+    "news",
+    "talk",
+    "sports",
+    "comedy",
+    "kids",
+    "gospel",
+    "christian",
+];
+
+const COUNTRIES: Record<string, string> = {
+    india: "IN",
+    indian: "IN",
+    "sri lanka": "LK",
+    "sri lankan": "LK",
+    singapore: "SG",
+    malaysia: "MY",
+    uk: "GB",
+    "united kingdom": "GB",
+    britain: "GB",
+    british: "GB",
+    england: "GB",
+    us: "US",
+    usa: "US",
+    america: "US",
+    american: "US",
+    "united states": "US",
+    canada: "CA",
+    australia: "AU",
+    germany: "DE",
+    france: "FR",
+    spain: "ES",
+    italy: "IT",
+    japan: "JP",
+    brazil: "BR",
+    uae: "AE",
+};
+
+/** Words that carry no meaning for genre and language requests. */
+const FILLER_WORDS = new Set([
+    "some",
+    "a",
+    "an",
+    "any",
+    "the",
+    "music",
+    "songs",
+    "song",
+    "station",
+    "stations",
+    "radio",
+    "channel",
+    "from",
+    "in",
+    "me",
+    "for",
+    "of",
+    "hits",
+]);
+
+const PLAY_VERBS =
+    /^(?:play|put on|tune (?:in )?(?:to|into)|listen to|switch to|change to|start|i want to (?:hear|listen to)|i(?:'d| would) like to (?:hear|listen to)|let(?:'s| us) (?:hear|listen to)|find)\s+/;
+
+const POLITE_PREFIX = /^(?:(?:hey|hi|ok|okay),?\s+)?(?:(?:please|can you|could you|would you|will you),?\s+)?/;
+const POLITE_SUFFIX = /[\s,]+please$/;
+const TRAILING_PUNCTUATION = /[\s.!?,]+$/;
+
+const helpPattern = /^(?:help|\?|what can you do|what do you do|how does this work|commands|show commands|what can i (?:say|ask))$/;
+const nowPlayingPattern =
+    /^(?:what(?:'s| is) (?:playing|on|this(?: song| station| track)?|the song|the station|this)(?: now| right now)?|what song is (?:this|playing)|now playing|which (?:song|station) is this|who(?:'s| is) (?:singing|this))$/;
+const pausePattern = /^(?:pause|hold on|wait|pause (?:it|the (?:music|radio|station|stream)))$/;
+const resumePattern = /^(?:resume|continue|unpause|keep playing|play again|resume (?:it|the (?:music|radio|station|stream))|play)$/;
+const stopPattern =
+    /^(?:stop|stop (?:it|playing|playback|the (?:music|radio|station|stream))|turn (?:it|the radio|the music) off|turn off (?:the )?(?:radio|music)|switch off (?:the )?(?:radio|music)|shut up)$/;
+const mutePattern = /^(?:mute|mute (?:it|the (?:sound|audio|radio))|sound off|silence)$/;
+const unmutePattern = /^(?:unmute|unmute (?:it|the (?:sound|audio|radio))|sound on)$/;
+const volumeUpPattern = /^(?:louder|volume up|turn (?:it |the volume )?up|increase (?:the )?volume|raise (?:the )?volume|pump it up)$/;
+const volumeDownPattern =
+    /^(?:quieter|softer|volume down|turn (?:it |the volume )?down|decrease (?:the )?volume|lower (?:the )?volume|reduce (?:the )?volume)$/;
+const volumeSetPattern = /^(?:set (?:the )?)?volume(?: to| at)? (\d{1,3})\s*%?$|^(?:set|turn) (?:it|the volume) to (\d{1,3})\s*%?$/;
+const volumeMaxPattern = /^(?:max(?:imum)? volume|volume max|full volume)$/;
+
+const sleepPattern =
+    /^(?:(?:set |start )?(?:a |the )?sleep timer|(?:stop|sleep|turn (?:it |the radio |the music )?off|switch off|fall asleep)(?: (?:it|playing|the (?:music|radio|station)))?)(?: in| for| after| to)? (.+)$/;
+const cancelSleepPattern = /^(?:cancel|stop|remove|clear|turn off) (?:the |my )?sleep timer$/;
+const alarmPattern =
+    /^(?:wake me(?: up)?|set (?:an |the |my )?alarm|alarm)(?: at| for)? (\d{1,2})(?:[:.](\d{2}))?\s*(am|pm)?(?: (?:with|to|playing|on) (.+))?$/;
+const cancelAlarmPattern = /^(?:(?:cancel|stop|remove|clear|turn off|dismiss) (?:the |my )?(?:wake-?up )?alarm|dismiss|i'm awake|im awake)$/;
+const snoozePattern = /^(?:snooze|snooze (?:it|the alarm)|(?:five|5|ten|10) more minutes)$/;
+
+const searchPattern = /^(?:search(?: for)?|look (?:for|up)|find (?:me )?(?:some )?stations(?: like| called| named| for| playing)?) (.+)$/;
+const favoritePattern = /^(?:add (?:it|this(?: station)?|(.+?)) to (?:my )?(?:favou?rites|presets)|(?:favou?rite|star) (?:it|this(?: station)?))$/;
+
+const durationPattern = /^(\d{1,3}|an?|one|half an?)\s*(hours?|hrs?|h|minutes?|mins?|m)?$/;
+
+/**
+ * Reads a duration like "30 minutes", "an hour" or "half an hour", in minutes.
+ */
+const parseMinutes = (text: string) => {
+    const match = text.match(durationPattern);
+    if (!match) return null;
+
+    const [, amount, unit] = match;
+    const count = amount.startsWith("half") ? 0.5 : /^(?:an?|one)$/.test(amount) ? 1 : Number(amount);
+
+    return Math.round(unit?.startsWith("h") ? count * 60 : count);
+};
+
+const ORDINALS: Record<string, number> = { first: 1, second: 2, third: 3, fourth: 4, fifth: 5, "1st": 1, "2nd": 2, "3rd": 3, "4th": 4, "5th": 5 };
+
+const selectPattern =
+    /^(?:(?:play )?(?:the )?(first|second|third|fourth|fifth|last|1st|2nd|3rd|4th|5th)(?: one| station)?|(?:play )?(?:number |no |#)?([1-9]))$/;
+
+/**
+ * Lower-cases a message and strips punctuation, politeness and extra spaces,
+ * so "Could you play jazz, please?" reads as "play jazz". The punctuation
+ * politeness leaves behind, like the comma before "please", goes as well.
+ */
+export const normalizeText = (text: string) =>
+    text
+        .toLowerCase()
+        .replace(/[’‘]/g, "'")
+        .replace(/\s+/g, " ")
+        .replace(TRAILING_PUNCTUATION, "")
+        .replace(POLITE_SUFFIX, "")
+        .replace(POLITE_PREFIX, "")
+        .replace(TRAILING_PUNCTUATION, "")
+        .trim();
+
+const intent = <T extends IntentType>(type: T, slots: Extract<Intent, { type: T }>["slots"]) => ({ type, slots }) as Extract<Intent, { type: T }>;
+
+const clarify = (question: string, suggestions: string[] = []) => intent("clarify", { question, suggestions });
+
+/**
+ * Extracts genre, language and country filters from a phrase like "some tamil
+ * devotional music". Returns null if the phrase contains anything else, which
+ * means it is more likely a station name.
+ */
+const parseFilters = (phrase: string) => {
+    let rest = ` ${phrase} `;
+    const slots: { genre?: string; language?: string; country?: string } = {};
+
+    for (const [name, code] of Object.entries(COUNTRIES).sort(([a], [b]) => b.length - a.length)) {
+        if (!slots.country && rest.includes(` ${name} `)) {
+            slots.country = code;
+            rest = rest.replace(` ${name} `, " ");
+        }
+    }
+
+    for (const language of LANGUAGES) {
+        if (!slots.language && rest.includes(` ${language} `)) {
+            slots.language = language;
+            rest = rest.replace(` ${language} `, " ");
+        }
+    }
+
+    for (const genre of GENRES) {
+        if (!slots.genre && rest.includes(` ${genre} `)) {
+            slots.genre = genre;
+            rest = rest.replace(` ${genre} `, " ");
+        }
+    }
+
+    const leftover = rest.split(" ").filter((word) => word && !FILLER_WORDS.has(word));
+
+    if (leftover.length > 0 || (!slots.genre && !slots.language && !slots.country)) return null;
+
+    return slots;
+};
+
+const parsePlayTarget = (target: string): Intent => {
+    const cleaned = target.replace(/^(?:the )?(?:radio )?station /, "").trim();
+
+    if (!cleaned || FILLER_WORDS.has(cleaned) || /^(?:something|anything|music|some music)$/.test(cleaned)) {
+        return clarify("What would you like to listen to? You can name a station, a genre or a language.", [
+            "Play Kodai FM",
+            "Play some Tamil music",
+            "Play jazz",
+        ]);
+    }
+
+    // Catalog stations always win over filters, so "Classic FM" isn't read as a genre.
+    if (getStationByAlias(cleaned)) {
+        return intent("play_station", { station: cleaned });
+    }
+
+    const filters = parseFilters(cleaned);
+
+    return filters ? intent("play_filtered", filters) : intent("play_station", { station: cleaned });
+};
+
+/**
+ * Turns a chat message into a typed player command.
+ *
+ * @param text The raw message the user typed.
+ * @param context Optional player state used to resolve context-dependent phrases like "play".
+ * @returns The parsed intent. Unclear messages produce a `clarify` intent with a follow-up question.
+ */
+export const parseIntent = (text: string, context: IntentContext = {}): Intent => {
+    const normalized = normalizeText(text);
+
+    if (!normalized) return intent("help", {});
+
+    // "The second one" only means something while a list of candidates is on offer.
+    const candidateCount = context.candidateCount ?? 0;
+    const selectMatch = candidateCount > 0 ? normalized.match(selectPattern) : null;
+    if (selectMatch) {
+        const [, ordinal, number] = selectMatch;
+        const index = ordinal === "last" ? candidateCount : (ORDINALS[ordinal] ?? Number(number));
+
+        return index <= candidateCount
+            ? intent("select_candidate", { index: index - 1 })
+            : clarify(`I only found ${candidateCount} stations. Which one would you like?`);
+    }
+
+    if (helpPattern.test(normalized)) return intent("help", {});
+    if (nowPlayingPattern.test(normalized)) return intent("now_playing", {});
+    if (pausePattern.test(normalized)) return intent("pause", {});
+    if (stopPattern.test(normalized)) return intent("stop", {});
+    if (mutePattern.test(normalized)) return intent("mute", { muted: true });
+    if (unmutePattern.test(normalized)) return intent("mute", { muted: false });
+
+    if (cancelSleepPattern.test(normalized)) return intent("cancel_sleep_timer", {});
+    if (cancelAlarmPattern.test(normalized)) return intent("cancel_alarm", {});
+    if (snoozePattern.test(normalized)) return intent("snooze", {});
+
+    const sleepMatch = normalized.match(sleepPattern);
+    if (sleepMatch) {
+        const minutes = parseMinutes(sleepMatch[1]);
+        return minutes ? intent("sleep_timer", { minutes }) : clarify("When should I stop the radio?", ["Stop in 30 minutes", "Sleep timer 1 hour"]);
+    }
+
+    const alarmMatch = normalized.match(alarmPattern);
+    if (alarmMatch) {
+        const [, hourText, minuteText, period, station] = alarmMatch;
+        const minute = Number(minuteText ?? 0);
+        let hour = Number(hourText);
+
+        if (minute > 59 || hour > 23 || (period && (hour < 1 || hour > 12))) {
+            return clarify("That doesn't look like a time. When should I wake you?", ["Wake me at 6:30 with Kodai FM", "Set an alarm for 7 am"]);
+        }
+
+        if (period) hour = (hour % 12) + (period === "pm" ? 12 : 0);
+
+        return intent("set_alarm", { hour, minute, station: station?.replace(/^(?:the )?(?:radio )?station /, "") || undefined });
+    }
+
+    if (resumePattern.test(normalized)) {
+        return context.hasStation ? intent("resume", {}) : parsePlayTarget("");
+    }
+
+    if (volumeUpPattern.test(normalized)) return intent("volume_up", { step: VOLUME_STEP });
+    if (volumeDownPattern.test(normalized)) return intent("volume_down", { step: VOLUME_STEP });
+    if (volumeMaxPattern.test(normalized)) return intent("volume_set", { level: 1 });
+
+    const volumeMatch = normalized.match(volumeSetPattern);
+    if (volumeMatch) {
+        const level = Number(volumeMatch[1] ?? volumeMatch[2]);
+        return level <= 100 ? intent("volume_set", { level: level / 100 }) : clarify("Volume goes from 0 to 100%. What level would you like?", ["Volume 50%"]);
+    }
+
+    if (/^(?:volume|sound|turn it)$/.test(normalized)) {
+        return clarify("Should I turn the volume up, down or set it to a level?", ["Louder", "Quieter", "Volume 50%"]);
+    }
+
+    const favoriteMatch = normalized.match(favoritePattern);
+    if (favoriteMatch) {
+        return intent("add_favorite", { station: favoriteMatch[1]?.replace(/^(?:the )?(?:radio )?station /, "") });
+    }
+
+    const searchMatch = normalized.match(searchPattern);
+    if (searchMatch) {
+        const target = searchMatch[1].replace(/^(?:the )?(?:radio )?station /, "");
+        return intent("search_stations", getStationByAlias(target) ? { query: target } : (parseFilters(target) ?? { query: target }));
+    }
+
+    const playMatch = normalized.match(PLAY_VERBS);
+    if (playMatch) {
+        return parsePlayTarget(normalized.slice(playMatch[0].length));
+    }
+
+    // Questions and long sentences without a command are unlikely to be station names.
+    if (text.trim().endsWith("?") || normalized.split(" ").length > 6) {
+        return clarify(`I'm not sure what you'd like me to do. Did you want me to play a station called "${normalized}"?`, [`Play ${normalized}`, "Help"]);
+    }
+
+    // A bare name like "Radio Mirchi" or "tamil devotional" is a play request.
+    return parsePlayTarget(normalized);
+};
@@ -0,0 +1,49 @@
+import { fromProxyUrl, getProxyListener } from "./proxy";
+import { createStore } from "./storage";
+
+/** Path of the route that streams the ICY "now playing" metadata read by the stream proxy as server-sent events. */
+export const METADATA_PATH = "/api/stream/metadata";
+
+/** How many streams that announced a track are remembered. */
+const MAX_LIVE_STREAMS = 200;
+
+/**
+ * Returns the URL of the metadata events of a stream, or null if there are
+ * none to subscribe to. Only the stream proxy can read ICY metadata, and only
+ * for the streams it was asked to, since the browser hides it from the page.
+ */
+export const getMetadataUrl = (streamUrl: string) => {
+    const listener = getProxyListener(streamUrl);
+    return listener ? `${METADATA_PATH}?listener=${encodeURIComponent(listener)}` : null;
+};
+
+/** Upstream URLs of the streams that announced a track while they were played, most recent first. */
+export const liveStreamsStore = createStore<string[]>("live-streams", [], (value) =>
+    Array.isArray(value) && value.every((url) => typeof url === "string") ? value : null,
+);
+
+/**
+ * Remembers that a stream announces the track on air.
+ */
+export const rememberLiveStream = (streamUrl: string) => {
+    const url = fromProxyUrl(streamUrl);
+
+    liveStreamsStore.set((urls) => (urls[0] === url ? urls : [url, ...urls.filter((other) => other !== url)].slice(0, MAX_LIVE_STREAMS)));
+};
+
+/**
+ * Moves the stations that announced what's on air when they were played
+ * before to the front, keeping the order otherwise. Nothing is connected to
+ * for this; stations are only known to announce tracks once they were played.
+ *
+ * @param getStreamUrl Returns the station's stream, or null for ones whose metadata isn't read, e.g. HLS streams.
+ */
+export const preferLiveStations = <T>(stations: T[], getStreamUrl: (station: T) => string | null) => {
+    const live = new Set(liveStreamsStore.get());
+    const isLive = (station: T) => {
+        const url = getStreamUrl(station);
+        return url !== null && live.has(url);
+    };
+
+    return [...stations.filter(isLive), ...stations.filter((station) => !isLive(station))];
+};
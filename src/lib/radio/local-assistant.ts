@@ -0,0 +1,117 @@
+import type { AssistantAction, AssistantPlayerState, AssistantProvider, AssistantReply, AssistantRequest } from "./assistant";
+import { describeStation } from "./assistant";
+import { getStationByAlias, getStations } from "./catalog";
+import type { Intent } from "./intents";
+import { normalizeText, parseIntent } from "./intents";
+import { toolCall } from "./tools";
+import { clampVolume } from "./volume";
+
+const stationsPattern =
+    /^(?:(?:what|which) (?:(.+?) )?(?:radio )?stations(?: do you (?:have|know)| are there| can (?:i|you) (?:play|listen to))?|(?:list|show)(?: me)?(?: the| all| your)?(?: (.+?))? stations)$/;
+const genresPattern =
+    /^(?:(?:what|which) (?:genres|kinds? of music|types? of music)(?: do you have| are there| can (?:i|you) (?:play|listen to))?|(?:list|show)(?: me)?(?: the| all)? genres)$/;
+const aboutPattern = /^(?:tell me (?:more )?about|what(?:'s| is)|info(?:rmation)? (?:on|about)|describe) (?:the )?(.+?)(?: station)?$/;
+
+const formatList = (lines: string[]) => lines.map((line) => `• ${line}`).join("\n");
+
+/**
+ * Lists the catalog stations, optionally only those of a genre or language
+ * or whose name contains the qualifier, e.g. "Capital".
+ */
+const answerStations = (qualifier: string | undefined) => {
+    const stations = getStations().filter(
+        (station) =>
+            !qualifier || station.genres.includes(qualifier) || station.language?.toLowerCase() === qualifier || station.name.toLowerCase().includes(qualifier),
+    );
+
+    if (stations.length === 0) {
+        return `None of my saved stations are ${qualifier}, but I can search the radio directory for you. Try "Play ${qualifier}".`;
+    }
+
+    return `${qualifier ? `Here are my ${qualifier} stations` : "Here are the stations I know best"}:\n\n${formatList(stations.map(describeStation))}\n\nAsk for any of them by name, or for any other station.`;
+};
+
+const answerGenres = () => {
+    const counts = new Map<string, number>();
+
+    for (const station of getStations()) {
+        for (const genre of station.genres) counts.set(genre, (counts.get(genre) ?? 0) + 1);
+    }
+
+    const genres = [...counts].sort(([, a], [, b]) => b - a).map(([genre, count]) => `${genre} (${count === 1 ? "1 station" : `${count} stations`})`);
+
+    return `My saved stations play:\n\n${formatList(genres)}\n\nI can find stations of many more genres in the radio directory, e.g. "Play jazz" or "Play some Tamil devotional".`;
+};
+
+const answerAbout = (name: string) => {
+    const station = getStationByAlias(name);
+    if (!station) return null;
+
+    return `${describeStation(station)}.${station.homepage ? ` More at ${station.homepage}.` : ""}\n\nSay "Play ${station.name}" to listen.`;
+};
+
+/**
+ * Answers questions about the catalog itself, or returns null for anything
+ * that is better read as a player command.
+ */
+const answerQuestion = (text: string) => {
+    const normalized = normalizeText(text);
+
+    if (genresPattern.test(normalized)) return answerGenres();
+
+    const stationsMatch = normalized.match(stationsPattern);
+    if (stationsMatch) return answerStations((stationsMatch[1] ?? stationsMatch[2])?.replace(/ ?radio$/, "") || undefined);
+
+    const aboutMatch = normalized.match(aboutPattern);
+    return aboutMatch ? answerAbout(aboutMatch[1]) : null;
+};
+
+const toPercent = (level: number) => Math.round(clampVolume(level) * 100);
+
+/**
+ * Runs the commands the player has tools for through them. The rest, like
+ * alarms or help, are left to the chat.
+ */
+const toAction = (intent: Intent, player: AssistantPlayerState): AssistantAction => {
+    switch (intent.type) {
+        case "play_station":
+        case "search_stations":
+        case "add_favorite":
+            return toolCall(intent.type, intent.slots);
+        case "pause":
+        case "resume":
+        case "stop":
+            return toolCall(intent.type, {});
+        case "volume_set":
+            return toolCall("set_volume", { level: toPercent(intent.slots.level) });
+        case "volume_up":
+            return toolCall("set_volume", { level: toPercent(player.volume + intent.slots.step) });
+        case "volume_down":
+            return toolCall("set_volume", { level: toPercent(player.volume - intent.slots.step) });
+        case "sleep_timer":
+            return toolCall("set_sleep_timer", intent.slots);
+        case "now_playing":
+            return toolCall("get_now_playing", {});
+        default:
+            return intent;
+    }
+};
+
+/**
+ * The built-in assistant. It answers questions about the station catalog and
+ * otherwise reads the message as a single player command, the same way every
+ * time, without a network connection.
+ */
+export class LocalAssistant implements AssistantProvider {
+    async respond({ messages, player, candidateCount }: AssistantRequest): Promise<AssistantReply> {
+        const text = messages.findLast((message) => message.role === "user")?.content ?? "";
+        const answer = answerQuestion(text);
+
+        if (answer) return { content: answer, actions: [] };
+
+        return { content: null, actions: [toAction(parseIntent(text, { hasStation: player.station !== null, candidateCount }), player)] };
+    }
+}
+
+/** The shared built-in assistant, also used when a remote one can't be reached. */
+export const localAssistant = new LocalAssistant();
@@ -0,0 +1,64 @@
+import type { FavoriteStation } from "./favorites";
+import { getFavoriteId } from "./favorites";
+import type { HistoryEntry } from "./history";
+import type { NowPlaying } from "./icy";
+import type { PlayerStream } from "./player";
+import { fromProxyUrl, isMixedContent } from "./proxy";
+
+/** Shown by the media controls for stations without a logo. */
+const DEFAULT_ARTWORK = "/icon.png";
+
+/** A station the previous and next track controls can switch to. */
+export interface QueuedStation {
+    name: string;
+    url: string;
+    hls?: boolean;
+    favicon?: string;
+}
+
+/**
+ * Returns the stations the previous and next track controls step through: the
+ * favorites, presets first, or the recently played stations if nothing was
+ * saved yet.
+ */
+export const getStationQueue = (presets: (FavoriteStation | null)[], favorites: FavoriteStation[], history: HistoryEntry[]): QueuedStation[] => {
+    if (favorites.length > 0) {
+        const inPresets = presets.filter((station) => station !== null);
+        return [...inPresets, ...favorites.filter((station) => !inPresets.includes(station))];
+    }
+
+    const recent = new Map<string, QueuedStation>();
+
+    for (const entry of history) {
+        const id = getFavoriteId(entry.station);
+        if (entry.url && !recent.has(id)) recent.set(id, { name: entry.station, url: fromProxyUrl(entry.url), hls: entry.hls, favicon: entry.favicon });
+    }
+
+    return [...recent.values()];
+};
+
+/**
+ * Returns the station before or after the current one in the queue, wrapping
+ * around at the ends. A station that isn't in the queue starts from its first
+ * or last entry.
+ */
+export const getAdjacentStation = (queue: QueuedStation[], current: string | null, offset: 1 | -1) => {
+    if (queue.length === 0) return null;
+
+    const index = current ? queue.findIndex((station) => getFavoriteId(station.name) === getFavoriteId(current)) : -1;
+
+    if (index === -1) return offset === 1 ? queue[0] : queue[queue.length - 1];
+
+    return queue[(index + offset + queue.length) % queue.length];
+};
+
+/**
+ * Describes the playing stream for the operating system's media controls.
+ */
+export const getMediaMetadata = (stream: PlayerStream, track: NowPlaying | null): MediaMetadataInit => ({
+    title: track?.title || track?.streamTitle || stream.name,
+    artist: track ? (track.artist ?? stream.name) : "Live radio",
+    album: stream.name,
+    // Insecure logos would be blocked as mixed content on an HTTPS page
+    artwork: [{ src: stream.favicon && !isMixedContent(stream.favicon) ? stream.favicon : DEFAULT_ARTWORK }],
+});
@@ -0,0 +1,109 @@
+import type { Station } from "./catalog";
+import type { RadioBrowserStation } from "./radio-browser";
+import { createStore } from "./storage";
+
+export type RadioModeId = "player" | "premium" | "classic" | "live";
+
+/**
+ * How the assistant looks for stations. Every mode searches the curated
+ * catalog first; they differ in what else they consider.
+ */
+export interface RadioMode {
+    id: RadioModeId;
+    label: string;
+    description: string;
+    /** Whether Radio Browser is searched at all, or only the curated catalog. */
+    searchesDirectory: boolean;
+    /** The lowest bitrate asked of Radio Browser, in kbps, so filtering leaves enough results. */
+    bitrateMin?: number;
+    /** Whether a station found in the catalog or the directory may be played in this mode. */
+    accepts: (stream: { codec: string | null; bitrate: number | null }) => boolean;
+    /** Whether stations that announce what's on air are preferred over equally good matches. */
+    prefersLiveMetadata: boolean;
+}
+
+/** The lowest bitrate Premium Radio accepts, in kbps. Opus sounds as good at a lower one. */
+const PREMIUM_MIN_BITRATE = { aac: 128, opus: 96 };
+
+/**
+ * Checks whether a stream is AAC or Opus at a high bitrate. Streams of unknown
+ * bitrate don't count.
+ */
+export const isPremiumStream = ({ codec, bitrate }: { codec: string | null; bitrate: number | null }) => {
+    const format = codec?.toLowerCase() ?? "";
+
+    if (!bitrate) return false;
+    if (format.includes("opus")) return bitrate >= PREMIUM_MIN_BITRATE.opus;
+    if (format.includes("aac")) return bitrate >= PREMIUM_MIN_BITRATE.aac;
+
+    return false;
+};
+
+const acceptsAll = () => true;
+
+export const RADIO_MODES: RadioMode[] = [
+    {
+        id: "player",
+        label: "Radio Player",
+        description: "Any station in the catalog or the directory",
+        searchesDirectory: true,
+        accepts: acceptsAll,
+        prefersLiveMetadata: false,
+    },
+    {
+        id: "premium",
+        label: "Premium Radio",
+        description: "Only high-bitrate AAC and Opus streams",
+        searchesDirectory: true,
+        bitrateMin: PREMIUM_MIN_BITRATE.opus,
+        accepts: isPremiumStream,
+        prefersLiveMetadata: false,
+    },
+    {
+        id: "classic",
+        label: "Classic Radio",
+        description: "Only the hand-picked station catalog",
+        searchesDirectory: false,
+        accepts: acceptsAll,
+        prefersLiveMetadata: false,
+    },
+    {
+        id: "live",
+        label: "Live Radio",
+        description: "Prefers stations that announce what's on air",
+        searchesDirectory: true,
+        accepts: acceptsAll,
+        prefersLiveMetadata: true,
+    },
+];
+
+export const DEFAULT_RADIO_MODE = RADIO_MODES[0];
+
+export const getRadioMode = (id: RadioModeId | undefined) => RADIO_MODES.find((mode) => mode.id === id) ?? DEFAULT_RADIO_MODE;
+
+/**
+ * Checks whether a catalog station can be played in a mode.
+ */
+export const acceptsCatalogStation = (mode: RadioMode, station: Station) => station.streams.length > 0 && mode.accepts(station);
+
+/**
+ * Narrows directory search results to the ones a mode plays.
+ */
+export const filterDirectoryStations = (mode: RadioMode, stations: RadioBrowserStation[]) =>
+    stations.filter((station) => mode.accepts({ codec: station.codec, bitrate: station.bitrate || null }));
+
+/**
+ * Finds catalog stations by genre, language or country, for modes that don't
+ * search the directory.
+ */
+export const filterCatalog = (stations: readonly Station[], filters: { genre?: string; language?: string; country?: string }) =>
+    stations.filter(
+        (station) =>
+            (!filters.genre || station.genres.includes(filters.genre.toLowerCase())) &&
+            (!filters.language || station.language?.toLowerCase() === filters.language.toLowerCase()) &&
+            (!filters.country || station.country?.toLowerCase() === filters.country.toLowerCase()),
+    );
+
+export const isRadioModeId = (value: unknown): value is RadioModeId => RADIO_MODES.some((mode) => mode.id === value);
+
+export const radioModeStore = createStore<RadioModeId>("radio-mode", DEFAULT_RADIO_MODE.id, (value) => (isRadioModeId(value) ? value : null));
@@ -0,0 +1,138 @@
+import type { AssistantProvider, AssistantReply, AssistantRequest } from "./assistant";
+import { AssistantError, describeStation } from "./assistant";
+import { getStations } from "./catalog";
+import { formatNowPlaying } from "./icy";
+import { getRadioMode } from "./modes";
+import { asRecord } from "./storage";
+import type { ToolCallRequest } from "./tools";
+import { toFunctionDefinitions } from "./tools";
+
+const DEFAULT_TIMEOUT = 30000;
+
+/** How many of the latest messages are sent along; older ones rarely matter and cost tokens. */
+const HISTORY_LENGTH = 20;
+
+export interface OpenAIAssistantOptions {
+    /** The API root, e.g. `https://api.openai.com/v1` or `http://localhost:11434/v1`. */
+    baseUrl: string;
+    apiKey?: string;
+    model: string;
+    /** Per-request timeout, in milliseconds. */
+    timeout?: number;
+}
+
+const describePlayer = ({ player, candidateCount }: AssistantRequest) => {
+    const lines = [
+        player.station ? `Loaded station: ${player.station} (${player.status})` : "Nothing is playing.",
+        player.track ? `On air: ${formatNowPlaying(player.track)}` : null,
+        `Volume: ${Math.round(player.volume * 100)}%${player.muted ? ", muted" : ""}`,
+        candidateCount > 0 ? `Your last reply offered ${candidateCount} stations to pick from.` : null,
+    ];
+
+    return lines.filter(Boolean).join("\n");
+};
+
+const createSystemPrompt = (request: AssistantRequest) => {
+    const mode = getRadioMode(request.mode);
+
+    return `You are the assistant of a web radio player. Answer questions about stations, genres and what's playing in a sentence or two, and control the player with the tools.
+The player shows what each tool did, so don't repeat it; say nothing when you only call tools.
+
+Search mode: ${mode.label} (${mode.description.toLowerCase()}).
+
+Player:
+${describePlayer(request)}
+
+Stations in the catalog (any other station can be played by name too):
+${getStations().map(describeStation).join("\n")}`;
+};
+
+/**
+ * Reads a tool call from a completion. Arguments that aren't valid JSON are
+ * passed on as they are, so running the call explains what's wrong with them.
+ */
+const parseToolCall = (value: unknown): ToolCallRequest | null => {
+    const fn = asRecord(asRecord(value)?.function);
+    if (typeof fn?.name !== "string") return null;
+
+    let args: unknown = fn.arguments;
+
+    if (typeof args === "string") {
+        try {
+            args = args.trim() ? JSON.parse(args) : {};
+        } catch {
+            // Left as it is
+        }
+    }
+
+    return { type: "tool_call", name: fn.name, arguments: args };
+};
+
+/**
+ * An assistant backed by any OpenAI-compatible chat completions API with tool
+ * calling, such as OpenAI itself, a local model server like Ollama or
+ * llama.cpp, or a mock.
+ */
+export class OpenAIAssistant implements AssistantProvider {
+    private readonly baseUrl: string;
+    private readonly apiKey?: string;
+    private readonly model: string;
+    private readonly timeout: number;
+
+    constructor({ baseUrl, apiKey, model, timeout = DEFAULT_TIMEOUT }: OpenAIAssistantOptions) {
+        this.baseUrl = baseUrl.replace(/\/+$/, "");
+        this.apiKey = apiKey || undefined;
+        this.model = model;
+        this.timeout = timeout;
+    }
+
+    async respond(request: AssistantRequest, signal?: AbortSignal): Promise<AssistantReply> {
+        const messages = [
+            { role: "system", content: createSystemPrompt(request) },
+            ...request.messages.filter((message) => message.content.trim()).slice(-HISTORY_LENGTH),
+        ];
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), this.timeout);
+        const abort = () => controller.abort();
+        signal?.addEventListener("abort", abort);
+
+        try {
+            const response = await fetch(`${this.baseUrl}/chat/completions`, {
+                method: "POST",
+                signal: controller.signal,
+                headers: {
+                    "Content-Type": "application/json",
+                    ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+                },
+                body: JSON.stringify({ model: this.model, messages, tools: toFunctionDefinitions(), temperature: 0.2 }),
+            }).catch((error: unknown) => {
+                if (signal?.aborted) throw error;
+                throw new AssistantError(controller.signal.aborted ? "The assistant took too long to answer." : `Couldn't reach ${this.baseUrl}.`);
+            });
+
+            if (!response.ok) {
+                throw new AssistantError(`The assistant server answered with status ${response.status}.`);
+            }
+
+            const data = asRecord(await response.json().catch(() => null));
+            const [choice] = Array.isArray(data?.choices) ? data.choices : [];
+            const message = asRecord(asRecord(choice)?.message);
+
+            if (!message) {
+                throw new AssistantError("The assistant server sent an answer that isn't a chat completion.");
+            }
+
+            const content = typeof message.content === "string" && message.content.trim() ? message.content.trim() : null;
+            const actions = Array.isArray(message.tool_calls) ? message.tool_calls.map(parseToolCall).filter((call) => call !== null) : [];
+
+            if (!content && actions.length === 0) {
+                throw new AssistantError("The assistant sent an empty answer.");
+            }
+
+            return { content, actions };
+        } finally {
+            clearTimeout(timeout);
+            signal?.removeEventListener("abort", abort);
+        }
+    }
+}
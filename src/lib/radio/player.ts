@@ -0,0 +1,584 @@
+import { AudioOutput } from "./audio-output";
+import type { NowPlaying } from "./icy";
+import type { StreamHandle } from "./probe";
+import { probeAudio } from "./probe";
+import type { ResolveAttempt, ResolveRequest, StrategyName } from "./resolver";
+import { StreamResolver, catalogStrategy, playlistStrategy, proxyStrategy } from "./resolver";
+
+/** How long playback may make no progress before the stream counts as dead, in milliseconds. */
+export const STALL_TIMEOUT = 10000;
+
+/** How many times a dropped stream is reconnected before giving up. */
+export const MAX_RECONNECT_ATTEMPTS = 5;
+
+/** How long pausing and resuming fade the sound, in milliseconds. */
+export const FADE_DURATION = 300;
+
+/** How long switching stations crossfades from the old stream to the new one, unless set otherwise, in milliseconds. */
+export const DEFAULT_CROSSFADE_DURATION = 2000;
+
+const STALL_CHECK_INTERVAL = 1000;
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 16000;
+
+/** Reconnects only retry the station's known streams instead of searching for it again. */
+const RECONNECT_STRATEGIES = [catalogStrategy, playlistStrategy, proxyStrategy];
+
+/** The stream the player has loaded. */
+export interface PlayerStream {
+    /** The station name, as asked for. */
+    name: string;
+    url: string;
+    kind: StreamHandle["kind"];
+    /** The track announced inside the stream, e.g. by HLS timed metadata. */
+    track: NowPlaying | null;
+    favicon?: string;
+}
+
+export type PlayerState =
+    | { status: "idle" }
+    /** `stream` is the station that stays on until the requested one plays, when switching stations. */
+    | { status: "resolving"; request: ResolveRequest; stream?: PlayerStream }
+    | { status: "connecting" | "buffering" | "playing" | "paused" | "stalled"; stream: PlayerStream }
+    | { status: "reconnecting"; stream: PlayerStream; attempt: number }
+    | { status: "error"; name: string; error: string; attempts: ResolveAttempt[] };
+
+export type PlayerStatus = PlayerState["status"];
+
+export type PlayerEvent =
+    /** `outgoing` is the stream that keeps playing until the requested station does. */
+    | { type: "resolve"; request: ResolveRequest; outgoing?: PlayerStream }
+    | { type: "resolved"; stream: PlayerStream }
+    /** `fallback` is the stream that keeps playing because the station it was to be replaced with failed. */
+    | { type: "resolve_failed"; attempts: ResolveAttempt[]; fallback?: PlayerStream }
+    /** The browser refused to start playback without a user gesture. */
+    | { type: "play_blocked" }
+    | { type: "playing" }
+    | { type: "pause" }
+    | { type: "waiting" }
+    | { type: "stalled" }
+    | { type: "reconnect"; attempt: number }
+    | { type: "reconnect_failed"; error: string; attempts: ResolveAttempt[] }
+    | { type: "metadata"; track: NowPlaying }
+    | { type: "stop" };
+
+export type PlayerListener = (state: PlayerState, event: PlayerEvent, previous: PlayerState) => void;
+
+export type PlayOutcome =
+    | { ok: true; url: string; strategy: StrategyName; attempts: ResolveAttempt[]; /** False if autoplay was blocked. */ started: boolean }
+    | { ok: false; attempts: ResolveAttempt[]; /** The station that keeps playing instead, if one was. */ kept: string | null }
+    /** Another station was requested, or the player was stopped, before this one connected. */
+    | { ok: false; aborted: true };
+
+export const IDLE_STATE: PlayerState = { status: "idle" };
+
+/**
+ * Returns the stream of a state, if one is loaded.
+ */
+export const getPlayerStream = (state: PlayerState) => ("stream" in state ? (state.stream ?? null) : null);
+
+/**
+ * Checks whether the player is trying to produce sound, i.e. it has a stream and isn't paused.
+ */
+export const isPlayingState = (state: PlayerState) => getPlayerStream(state) !== null && state.status !== "paused";
+
+/**
+ * Computes the next player state. Events that don't apply to the current
+ * state, e.g. a late `playing` from a stream that was already stopped, leave
+ * it unchanged.
+ */
+export const transition = (state: PlayerState, event: PlayerEvent): PlayerState => {
+    switch (event.type) {
+        case "resolve":
+            return event.outgoing ? { status: "resolving", request: event.request, stream: event.outgoing } : { status: "resolving", request: event.request };
+        case "stop":
+            return state.status === "idle" ? state : IDLE_STATE;
+        case "resolved":
+            return state.status === "resolving" || state.status === "reconnecting" ? { status: "connecting", stream: event.stream } : state;
+        case "resolve_failed":
+            if (state.status !== "resolving") return state;
+
+            return event.fallback
+                ? { status: "playing", stream: event.fallback }
+                : { status: "error", name: state.request.name, error: "None of the station's streams responded.", attempts: event.attempts };
+    }
+
+    if (!("stream" in state) || !state.stream) return state;
+
+    const { stream } = state;
+
+    switch (event.type) {
+        case "playing":
+            return state.status === "playing" ? state : { status: "playing", stream };
+        case "pause":
+        case "play_blocked":
+            return state.status === "paused" ? state : { status: "paused", stream };
+        case "waiting":
+            return state.status === "playing" ? { status: "buffering", stream } : state;
+        case "stalled":
+            return state.status === "paused" || state.status === "stalled" ? state : { status: "stalled", stream };
+        case "reconnect":
+            return { status: "reconnecting", stream, attempt: event.attempt };
+        case "reconnect_failed":
+            return { status: "error", name: stream.name, error: event.error, attempts: event.attempts };
+        case "metadata":
+            return { ...state, stream: { ...stream, track: event.track } };
+    }
+};
+
+const MEDIA_EVENTS = ["playing", "pause", "waiting", "stalled"] as const;
+
+/**
+ * Waits for a fade to finish, unless it's aborted first.
+ *
+ * @returns Whether the fade ran to the end.
+ */
+const waitForFade = (duration: number, signal?: AbortSignal) =>
+    new Promise<boolean>((resolve) => {
+        const timer = setTimeout(() => resolve(true), duration);
+
+        signal?.addEventListener("abort", () => {
+            clearTimeout(timer);
+            resolve(false);
+        });
+    });
+
+/**
+ * Returns how long to wait before a reconnect attempt: 1, 2, 4, 8 and at most 16 seconds.
+ */
+export const getReconnectDelay = (attempt: number) => Math.min(RECONNECT_BASE_DELAY * 2 ** (attempt - 1), RECONNECT_MAX_DELAY);
+
+/**
+ * Owns the audio of the app: resolves stations to streams, plays them and
+ * tracks playback as a `PlayerState`. Every change goes through `transition`,
+ * so listeners always see a consistent state.
+ *
+ * Streams that stall, stop making progress or fail mid-listen are reconnected
+ * with exponential backoff, moving on to the station's next known stream with
+ * every attempt.
+ *
+ * Switching stations keeps the old stream on until the new one plays and then
+ * crossfades between them. If the new station fails, the old one stays on.
+ */
+export class AudioEngine {
+    private state: PlayerState = IDLE_STATE;
+    private stream: StreamHandle | null = null;
+    private controller: AbortController | null = null;
+    private readonly listeners = new Set<PlayerListener>();
+    private volume = 1;
+    /** Scales the volume for fades that shouldn't change the listener's setting. */
+    private gain = 1;
+    private fadeController: AbortController | null = null;
+    private crossfadeDuration = DEFAULT_CROSSFADE_DURATION;
+    /** The stream that keeps playing while the next station connects, with what's needed to bring it back. */
+    private outgoing: { handle: StreamHandle; stream: PlayerStream; request: ResolveRequest | null } | null = null;
+    /** The request of the station being played, for reconnecting. */
+    private request: ResolveRequest | null = null;
+    private reconnectAttempt = 0;
+    private reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    private watchdog: ReturnType<typeof setInterval> | undefined;
+    /** Plays the streams through Web Audio, e.g. for the visualizer. */
+    readonly output = new AudioOutput();
+
+    constructor(
+        private readonly resolver = new StreamResolver(probeAudio),
+        private readonly reconnectResolver = new StreamResolver(probeAudio, RECONNECT_STRATEGIES),
+    ) {}
+
+    getState = () => this.state;
+
+    /**
+     * Subscribes to state changes.
+     *
+     * @returns A function that unsubscribes the listener.
+     */
+    subscribe = (listener: PlayerListener) => {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    };
+
+    /** The audio element of the current stream, if one is loaded. */
+    get audio() {
+        return this.stream?.audio ?? null;
+    }
+
+    private dispatch(event: PlayerEvent) {
+        const previous = this.state;
+        const next = transition(previous, event);
+
+        if (next === previous) return;
+
+        this.state = next;
+        this.listeners.forEach((listener) => listener(next, event, previous));
+    }
+
+    /**
+     * Drops the current stream.
+     *
+     * @param fadeOut Whether a playing stream fades out before it's destroyed,
+     * e.g. when switching stations, rather than cutting off.
+     */
+    private release(fadeOut = false) {
+        const handle = this.stream;
+
+        clearTimeout(this.reconnectTimer);
+        clearInterval(this.watchdog);
+        this.controller?.abort();
+        this.controller = null;
+        this.fadeController?.abort();
+        this.stream = null;
+
+        if (handle) this.drop(handle, fadeOut);
+    }
+
+    /**
+     * Destroys a stream that's no longer current.
+     *
+     * @param fadeOut Whether it fades out first if it's playing, rather than cutting off.
+     */
+    private drop(handle: StreamHandle, fadeOut: boolean, duration = FADE_DURATION) {
+        const discard = () => {
+            handle.destroy();
+            this.output.disconnect(handle.audio);
+        };
+
+        if (fadeOut && !handle.audio.paused) {
+            this.output.fade(handle.audio, 0, duration);
+            waitForFade(duration).then(discard);
+        } else {
+            discard();
+        }
+    }
+
+    /**
+     * Drops the stream that kept playing during a station switch.
+     */
+    private dropOutgoing(duration = FADE_DURATION) {
+        if (this.outgoing) this.drop(this.outgoing.handle, true, duration);
+        this.outgoing = null;
+    }
+
+    /**
+     * Makes the stream that kept playing during a station switch current
+     * again, e.g. because the new station failed.
+     *
+     * @returns The stream that was brought back, if there was one.
+     */
+    private restoreOutgoing() {
+        const outgoing = this.outgoing;
+        if (!outgoing) return null;
+
+        this.outgoing = null;
+        this.stream = outgoing.handle;
+        this.request = outgoing.request;
+        this.output.fade(outgoing.handle.audio, 1);
+        this.watch(outgoing.handle);
+
+        return outgoing.stream;
+    }
+
+    private applyVolume() {
+        this.output.setVolume(this.volume * this.gain);
+    }
+
+    /**
+     * Fades the current stream in or out, taking over from a fade in progress.
+     *
+     * @returns Whether the fade ran to the end, as opposed to being replaced by another.
+     */
+    private fadeTo(level: number, duration = FADE_DURATION) {
+        const controller = new AbortController();
+
+        this.fadeController?.abort();
+        this.fadeController = controller;
+
+        if (this.stream) this.output.fade(this.stream.audio, level, duration);
+
+        return waitForFade(duration, controller.signal);
+    }
+
+    /**
+     * Fades in a stream that just started playing. It's routed through the
+     * output first, so the fade is ramped on its gain node.
+     */
+    private async fadeIn(handle: StreamHandle, duration = FADE_DURATION) {
+        if (this.stream !== handle) return;
+
+        await this.output.connect(handle.audio);
+        if (this.stream === handle) this.fadeTo(1, duration);
+    }
+
+    /**
+     * Fades in a new stream that just started playing, while the one it
+     * replaces, if it's still on, fades out.
+     */
+    private crossfade(handle: StreamHandle) {
+        if (this.stream !== handle) return;
+
+        const duration = this.outgoing ? this.crossfadeDuration : FADE_DURATION;
+
+        this.dropOutgoing(duration);
+        this.fadeIn(handle, duration);
+    }
+
+    private attach(handle: StreamHandle) {
+        const { audio } = handle;
+        // Events of a stream that was replaced in the meantime are ignored.
+        const forward = (event: PlayerEvent) => () => this.stream === handle && this.dispatch(event);
+
+        for (const type of MEDIA_EVENTS) {
+            audio.addEventListener(type, forward({ type }));
+        }
+
+        audio.addEventListener("playing", () => {
+            if (this.stream !== handle) return;
+
+            this.reconnectAttempt = 0;
+            // Playing means the browser allows sound, so the audio context can start as well
+            this.output.connect(audio);
+        });
+
+        audio.addEventListener("error", () => {
+            console.error("Audio error:", audio.error, "URL:", audio.currentSrc);
+            if (this.stream === handle) this.reconnect(audio.error?.message || "The stream stopped unexpectedly.");
+        });
+
+        // Live streams never end on their own, so an ending means the connection dropped.
+        audio.addEventListener("ended", () => {
+            if (this.stream === handle) this.reconnect("The station closed the stream.");
+        });
+
+        handle.onMetadata((track) => forward({ type: "metadata", track })());
+        this.stream = handle;
+        // New streams start silent and fade in once they play
+        this.output.fade(audio, 0);
+        this.watch(handle);
+    }
+
+    /**
+     * Watches for playback that makes no progress, which `stalled` and
+     * `waiting` events alone don't reliably reveal: some browsers keep
+     * "playing" a stream whose connection has silently died.
+     */
+    private watch(handle: StreamHandle) {
+        const { audio } = handle;
+        let lastTime = audio.currentTime;
+        let lastProgress = performance.now();
+
+        clearInterval(this.watchdog);
+        this.watchdog = setInterval(() => {
+            if (this.stream !== handle) return;
+
+            if (audio.paused || audio.currentTime !== lastTime) {
+                lastTime = audio.currentTime;
+                lastProgress = performance.now();
+            } else if (performance.now() - lastProgress >= STALL_TIMEOUT) {
+                this.reconnect("The stream stopped sending audio.");
+            }
+        }, STALL_CHECK_INTERVAL);
+    }
+
+    /**
+     * Drops the current stream and schedules the next reconnect attempt, or
+     * gives up once `MAX_RECONNECT_ATTEMPTS` is reached.
+     */
+    private reconnect(reason: string, attempts: ResolveAttempt[] = []) {
+        const stream = getPlayerStream(this.state);
+        if (!stream) return;
+
+        this.release();
+
+        if (this.reconnectAttempt >= MAX_RECONNECT_ATTEMPTS) {
+            this.reconnectAttempt = 0;
+            this.dispatch({ type: "reconnect_failed", error: reason, attempts });
+            return;
+        }
+
+        const attempt = ++this.reconnectAttempt;
+
+        this.dispatch({ type: "reconnect", attempt });
+        this.reconnectTimer = setTimeout(() => this.reconnectTo(stream, attempt), getReconnectDelay(attempt));
+    }
+
+    private async reconnectTo(stream: PlayerStream, attempt: number) {
+        const controller = new AbortController();
+        this.controller = controller;
+
+        // The first attempt retries the same stream in case of a short network blip,
+        // later ones start with the next known URL.
+        const known = [...new Set([stream.url, ...(this.request?.urls ?? [])])];
+        const offset = (attempt - 1) % known.length;
+        const urls = [...known.slice(offset), ...known.slice(0, offset)];
+
+        const result = await this.reconnectResolver.resolve({ name: stream.name, urls, hls: this.request?.hls, mode: this.request?.mode }, controller.signal);
+
+        if (controller.signal.aborted) {
+            if (result.ok) result.value.destroy();
+            return;
+        }
+
+        this.controller = null;
+
+        if (!result.ok) {
+            this.reconnect("None of the station's streams responded.", result.attempts);
+            return;
+        }
+
+        const handle = result.value;
+
+        this.attach(handle);
+        this.dispatch({ type: "resolved", stream: { ...stream, url: result.url, kind: handle.kind, track: null } });
+        handle.audio.play().then(
+            () => this.fadeIn(handle),
+            () => this.stream === handle && this.dispatch({ type: "play_blocked" }),
+        );
+    }
+
+    /**
+     * Resolves a station to a working stream and starts playing it, replacing
+     * whatever was playing before.
+     */
+    async play(request: ResolveRequest): Promise<PlayOutcome> {
+        const current = this.stream;
+        const currentStream = getPlayerStream(this.state);
+
+        // A playing stream stays on until the new one plays, so switching leaves no gap.
+        // Switching again before that keeps the stream that was on in the first place.
+        if (current && currentStream && this.state.status === "playing") {
+            this.dropOutgoing();
+            this.stream = null;
+            this.outgoing = { handle: current, stream: currentStream, request: this.request };
+        }
+
+        this.release(true);
+        this.request = request;
+        this.reconnectAttempt = 0;
+
+        const controller = new AbortController();
+        this.controller = controller;
+        this.dispatch({ type: "resolve", request, outgoing: this.outgoing?.stream });
+
+        const result = await this.resolver.resolve(request, controller.signal);
+
+        if (controller.signal.aborted) {
+            if (result.ok) result.value.destroy();
+            return { ok: false, aborted: true };
+        }
+
+        this.controller = null;
+
+        if (!result.ok) {
+            const fallback = this.restoreOutgoing() ?? undefined;
+
+            this.dispatch({ type: "resolve_failed", attempts: result.attempts, fallback });
+            return { ok: false, attempts: result.attempts, kept: fallback?.name ?? null };
+        }
+
+        const { value: handle, url, strategy, attempts } = result;
+
+        this.attach(handle);
+        this.dispatch({ type: "resolved", stream: { name: request.name, url, kind: handle.kind, track: null, favicon: request.favicon } });
+
+        try {
+            await handle.audio.play();
+            this.crossfade(handle);
+            return { ok: true, url, strategy, attempts, started: true };
+        } catch (error) {
+            console.error("Error playing audio:", error, "URL:", url);
+            if (this.stream === handle) {
+                this.dropOutgoing();
+                this.dispatch({ type: "play_blocked" });
+            }
+
+            return { ok: true, url, strategy, attempts, started: false };
+        }
+    }
+
+    pause() {
+        if (this.state.status === "resolving" && this.outgoing) {
+            // Pausing while switching stations cancels the switch and pauses the station that's still on
+            this.controller?.abort();
+            this.controller = null;
+            this.restoreOutgoing();
+            this.dispatch({ type: "playing" });
+        }
+
+        // A new station that's already connecting is paused instead of the one it replaces
+        this.dropOutgoing();
+
+        if (this.state.status === "reconnecting") {
+            // There's no stream to pause yet, so stop trying until the listener resumes.
+            this.release();
+            this.reconnectAttempt = 0;
+            this.dispatch({ type: "pause" });
+            return;
+        }
+
+        const handle = this.stream;
+        if (!handle || handle.audio.paused) return;
+
+        // The stream keeps playing until it has faded out, unless it's resumed before that
+        this.fadeTo(0).then((faded) => faded && this.stream === handle && handle.audio.pause());
+    }
+
+    resume() {
+        // The station that's still on while switching stations is playing already
+        if (this.state.status === "resolving") return;
+
+        const handle = this.stream;
+        const stream = getPlayerStream(this.state);
+
+        if (!handle && stream) {
+            this.dispatch({ type: "reconnect", attempt: ++this.reconnectAttempt });
+            this.reconnectTo(stream, this.reconnectAttempt);
+            return;
+        }
+
+        if (!handle) return;
+
+        if (!handle.audio.paused) {
+            // Still fading out from a pause
+            this.fadeTo(1);
+            return;
+        }
+
+        handle.audio.play().then(
+            () => this.fadeIn(handle),
+            () => this.stream === handle && this.dispatch({ type: "play_blocked" }),
+        );
+    }
+
+    stop() {
+        this.dropOutgoing();
+        this.release(true);
+        this.request = null;
+        this.reconnectAttempt = 0;
+        this.dispatch({ type: "stop" });
+    }
+
+    /**
+     * Sets the output volume, from 0 to 1. It carries over to streams played later.
+     */
+    setVolume(level: number) {
+        this.volume = Math.min(1, Math.max(0, level));
+        this.applyVolume();
+    }
+
+    /**
+     * Sets how long switching stations crossfades, in milliseconds.
+     */
+    setCrossfade(duration: number) {
+        this.crossfadeDuration = Math.max(0, duration);
+    }
+
+    /**
+     * Scales the volume, from 0 to 1, without changing it, e.g. to fade out
+     * before the sleep timer stops the player.
+     */
+    setGain(level: number) {
+        this.gain = Math.min(1, Math.max(0, level));
+        this.applyVolume();
+    }
+}
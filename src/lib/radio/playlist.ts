@@ -0,0 +1,184 @@
+export type PlaylistFormat = "pls" | "m3u" | "asx" | "xspf";
+
+export interface PlaylistEntry {
+    url: string;
+    title?: string;
+}
+
+const CONTENT_TYPE_FORMATS: Record<string, PlaylistFormat> = {
+    "audio/x-scpls": "pls",
+    "audio/scpls": "pls",
+    "application/pls+xml": "pls",
+    "audio/x-mpegurl": "m3u",
+    "audio/mpegurl": "m3u",
+    "application/x-mpegurl": "m3u",
+    "video/x-ms-asf": "asx",
+    "video/x-ms-asx": "asx",
+    "audio/x-ms-asx": "asx",
+    "application/vnd.ms-asf": "asx",
+    "application/xspf+xml": "xspf",
+};
+
+const EXTENSION_FORMATS: Record<string, PlaylistFormat> = {
+    pls: "pls",
+    m3u: "m3u",
+    asx: "asx",
+    wax: "asx",
+    wvx: "asx",
+    xspf: "xspf",
+};
+
+/**
+ * Works out whether a URL points at a playlist file rather than an audio
+ * stream, from the response content type if known or the file extension.
+ * HLS manifests (`.m3u8`) are streams, not playlists, and are never matched.
+ */
+export const detectPlaylistFormat = (url: string, contentType?: string | null): PlaylistFormat | null => {
+    const type = contentType?.split(";")[0].trim().toLowerCase();
+
+    if (type && CONTENT_TYPE_FORMATS[type]) return CONTENT_TYPE_FORMATS[type];
+
+    const path = url.split(/[?#]/)[0];
+    const extension = path.includes(".") ? path.split(".").pop()!.toLowerCase() : "";
+
+    return EXTENSION_FORMATS[extension] ?? null;
+};
+
+const decodeXml = (value: string) =>
+    value
+        .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, "&")
+        .trim();
+
+const resolveUrl = (url: string, base?: string) => {
+    try {
+        return new URL(url, base).toString();
+    } catch {
+        return null;
+    }
+};
+
+const isStreamUrl = (url: string | null): url is string => !!url && /^https?:\/\//i.test(url);
+
+/**
+ * Parses a Shoutcast-style PLS playlist.
+ */
+export const parsePls = (text: string): PlaylistEntry[] => {
+    const files = new Map<number, PlaylistEntry>();
+
+    for (const line of text.split(/\r?\n/)) {
+        const match = line.trim().match(/^(File|Title)(\d+)\s*=\s*(.*)$/i);
+        if (!match) continue;
+
+        const [, key, index, value] = match;
+        const entry = files.get(Number(index)) ?? { url: "" };
+
+        if (key.toLowerCase() === "file") entry.url = value.trim();
+        else entry.title = value.trim() || undefined;
+
+        files.set(Number(index), entry);
+    }
+
+    return Array.from(files.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([, entry]) => entry)
+        .filter((entry) => entry.url);
+};
+
+/**
+ * Parses a plain or extended M3U playlist. Titles come from `#EXTINF` lines.
+ */
+export const parseM3u = (text: string): PlaylistEntry[] => {
+    const entries: PlaylistEntry[] = [];
+    let title: string | undefined;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim();
+
+        if (!line) continue;
+
+        if (line.toUpperCase().startsWith("#EXTINF:")) {
+            // #EXTINF:<duration> [attributes],<title>
+            const comma = line.indexOf(",");
+            title = comma >= 0 ? line.slice(comma + 1).trim() || undefined : undefined;
+            continue;
+        }
+
+        if (line.startsWith("#")) continue;
+
+        entries.push({ url: line, title });
+        title = undefined;
+    }
+
+    return entries;
+};
+
+/**
+ * Parses a Windows Media ASX playlist.
+ */
+export const parseAsx = (text: string): PlaylistEntry[] => {
+    const entries: PlaylistEntry[] = [];
+
+    for (const [, body] of text.matchAll(/<entry\b[^>]*>([\s\S]*?)<\/entry>/gi)) {
+        const title = body.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+
+        for (const [, , href] of body.matchAll(/<ref\b[^>]*\bhref\s*=\s*(["'])(.*?)\1/gi)) {
+            entries.push({ url: decodeXml(href), title: title ? decodeXml(title) : undefined });
+        }
+    }
+
+    return entries;
+};
+
+/**
+ * Parses an XSPF ("spiff") playlist.
+ */
+export const parseXspf = (text: string): PlaylistEntry[] => {
+    const entries: PlaylistEntry[] = [];
+
+    for (const [, body] of text.matchAll(/<track\b[^>]*>([\s\S]*?)<\/track>/gi)) {
+        const title = body.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+
+        for (const [, location] of body.matchAll(/<location\b[^>]*>([\s\S]*?)<\/location>/gi)) {
+            entries.push({ url: decodeXml(location), title: title ? decodeXml(title) : undefined });
+        }
+    }
+
+    return entries;
+};
+
+const PARSERS: Record<PlaylistFormat, (text: string) => PlaylistEntry[]> = {
+    pls: parsePls,
+    m3u: parseM3u,
+    asx: parseAsx,
+    xspf: parseXspf,
+};
+
+/**
+ * Parses a playlist file into its ordered list of http(s) stream entries.
+ * Relative entries are resolved against the playlist URL.
+ *
+ * @param text The playlist file contents.
+ * @param format The playlist format, see `detectPlaylistFormat`.
+ * @param baseUrl The URL the playlist was loaded from.
+ */
+export const parsePlaylist = (text: string, format: PlaylistFormat, baseUrl?: string): PlaylistEntry[] => {
+    // Some servers label every playlist the same way, so sniff the contents too.
+    const trimmed = text.trimStart();
+    const sniffed: PlaylistFormat = /^\[playlist\]/i.test(trimmed)
+        ? "pls"
+        : /^<\?xml[\s\S]*?<playlist\b/i.test(trimmed) || /^<playlist\b/i.test(trimmed)
+          ? "xspf"
+          : /^<asx\b/i.test(trimmed)
+            ? "asx"
+            : format;
+
+    return PARSERS[sniffed](text).flatMap((entry) => {
+        const url = resolveUrl(entry.url, baseUrl);
+        return isStreamUrl(url) ? [{ ...entry, url }] : [];
+    });
+};
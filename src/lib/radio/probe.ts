@@ -0,0 +1,198 @@
+import type { HlsSession } from "./hls";
+import { attachHls, isHlsContentType, isHlsUrl } from "./hls";
+import type { NowPlaying } from "./icy";
+import { isProxyUrl, toProxyUrl } from "./proxy";
+import type { StreamCandidate } from "./resolver";
+import { StreamError } from "./resolver";
+
+/** How long a stream gets to start producing audio before it counts as failed. */
+export const PROBE_TIMEOUT = 8000;
+
+const MEDIA_ERRORS: Record<number, { type: "aborted" | "network" | "decode" | "unsupported"; message: string }> = {
+    1: { type: "aborted", message: "Loading the stream was aborted." },
+    2: { type: "network", message: "The stream couldn't be downloaded." },
+    3: { type: "decode", message: "The stream couldn't be decoded." },
+    4: { type: "unsupported", message: "The stream format isn't supported or the server blocked it." },
+};
+
+/**
+ * A stream that is loaded and ready to play.
+ */
+export interface StreamHandle {
+    audio: HTMLAudioElement;
+    /** `hls` streams are played through Media Source Extensions, `progressive` ones directly by the audio element. */
+    kind: "progressive" | "hls";
+    /**
+     * Subscribes to tracks announced inside the stream itself, i.e. timed ID3
+     * metadata of HLS streams. ICY metadata is read by the server instead.
+     *
+     * @returns A function that unsubscribes the listener.
+     */
+    onMetadata: (listener: (track: NowPlaying) => void) => () => void;
+    /** Stops playback and releases the stream. */
+    destroy: () => void;
+}
+
+/**
+ * Creates an audio element for a stream. Only proxied and same-origin streams
+ * are requested with CORS, which Web Audio needs: most stations don't send CORS
+ * headers, and asking for it would fail them before they could play directly.
+ */
+const createAudio = (url: string) => {
+    const audio = new Audio();
+
+    if (isProxyUrl(url) || new URL(url, location.href).origin === location.origin) audio.crossOrigin = "anonymous";
+    audio.preload = "auto";
+    return audio;
+};
+
+/**
+ * Waits until the browser has buffered enough of the stream to start playing.
+ *
+ * @param failed Rejects when the stream fails outside of the audio element, e.g. in hls.js.
+ */
+const waitUntilPlayable = (audio: HTMLAudioElement, signal: AbortSignal, timeout: number, failed?: Promise<never>) =>
+    new Promise<void>((resolve, reject) => {
+        let settled = false;
+
+        const cleanup = () => {
+            settled = true;
+            clearTimeout(timer);
+            audio.removeEventListener("canplay", handleCanPlay);
+            audio.removeEventListener("error", handleError);
+            signal.removeEventListener("abort", handleAbort);
+        };
+
+        const fail = (error: StreamError) => {
+            if (settled) return;
+            cleanup();
+            reject(error);
+        };
+
+        const handleCanPlay = () => {
+            cleanup();
+            resolve();
+        };
+
+        const handleError = () => {
+            const error = MEDIA_ERRORS[audio.error?.code ?? 2] ?? MEDIA_ERRORS[2];
+            fail(new StreamError(error.message, error.type));
+        };
+
+        const handleAbort = () => fail(new StreamError("The request was cancelled.", "aborted"));
+
+        const timer = setTimeout(() => fail(new StreamError(`The stream didn't start within ${timeout / 1000} seconds.`, "timeout")), timeout);
+
+        audio.addEventListener("canplay", handleCanPlay);
+        audio.addEventListener("error", handleError);
+        signal.addEventListener("abort", handleAbort);
+        failed?.catch((error: Error) => fail(new StreamError(`The HLS stream couldn't be loaded (${error.message}).`, "network")));
+    });
+
+const createHandle = (audio: HTMLAudioElement, kind: StreamHandle["kind"], release: () => void) => {
+    const listeners = new Set<(track: NowPlaying) => void>();
+    let lastTrack: NowPlaying | null = null;
+
+    const handle: StreamHandle = {
+        audio,
+        kind,
+        onMetadata: (listener) => {
+            listeners.add(listener);
+            if (lastTrack) listener(lastTrack);
+
+            return () => listeners.delete(listener);
+        },
+        destroy: () => {
+            listeners.clear();
+            audio.pause();
+            release();
+        },
+    };
+
+    const emit = (track: NowPlaying) => {
+        lastTrack = track;
+        listeners.forEach((listener) => listener(track));
+    };
+
+    return { handle, emit };
+};
+
+const probeProgressive = async (url: string, signal: AbortSignal, timeout: number) => {
+    const audio = createAudio(url);
+    const { handle } = createHandle(audio, "progressive", () => {
+        // Stop the browser from downloading the stream in the background.
+        audio.removeAttribute("src");
+        audio.load();
+    });
+
+    audio.src = url;
+    audio.load();
+
+    try {
+        await waitUntilPlayable(audio, signal, timeout);
+        return handle;
+    } catch (error) {
+        handle.destroy();
+        throw error;
+    }
+};
+
+const probeHls = async (url: string, signal: AbortSignal, timeout: number) => {
+    const audio = createAudio(url);
+    let session: HlsSession | null = null;
+    const { handle, emit } = createHandle(audio, "hls", () => session?.destroy());
+
+    try {
+        session = await attachHls(audio, url, { onMetadata: emit });
+    } catch (error) {
+        throw new StreamError(error instanceof Error ? error.message : String(error), "unsupported");
+    }
+
+    try {
+        await waitUntilPlayable(audio, signal, timeout, session.failed);
+        return handle;
+    } catch (error) {
+        handle.destroy();
+        throw error;
+    }
+};
+
+/**
+ * Checks through the stream proxy whether a URL without a telling extension
+ * serves an HLS manifest. Only the headers are read unless they point at one.
+ */
+const isHlsStream = async (url: string, signal: AbortSignal) => {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal.addEventListener("abort", abort);
+
+    try {
+        const response = await fetch(isProxyUrl(url) ? url : toProxyUrl(url), { signal: controller.signal });
+
+        // `audio/x-mpegurl` is also used for plain M3U playlists, which the playlist strategy expands.
+        return response.ok && isHlsContentType(response.headers.get("content-type")) && /#EXT-X-/i.test(await response.text());
+    } catch {
+        return false;
+    } finally {
+        signal.removeEventListener("abort", abort);
+        controller.abort();
+    }
+};
+
+/**
+ * Loads a stream into a new audio element and resolves with a handle to it once
+ * the browser has buffered enough to start playing. HLS streams are detected
+ * from the candidate's hint, the `.m3u8` extension or, when the browser
+ * rejects the format, the content type the server sends.
+ */
+export const probeAudio = async ({ url, hls }: StreamCandidate, signal: AbortSignal, timeout = PROBE_TIMEOUT): Promise<StreamHandle> => {
+    if (hls || isHlsUrl(url)) return probeHls(url, signal, timeout);
+
+    try {
+        return await probeProgressive(url, signal, timeout);
+    } catch (error) {
+        if (!(error instanceof StreamError) || error.type !== "unsupported" || !(await isHlsStream(url, signal))) throw error;
+
+        return probeHls(url, signal, timeout);
+    }
+};
@@ -0,0 +1,36 @@
+/** Path of the server-side stream proxy route. */
+export const STREAM_PROXY_PATH = "/api/stream";
+
+/**
+ * Returns the proxy URL that pipes the given upstream stream through our own origin.
+ *
+ * @param listener Has the proxy read the station's ICY metadata on the way and
+ * publish it under this ID, see `getMetadataUrl`.
+ */
+export const toProxyUrl = (url: string, listener?: string) =>
+    `${STREAM_PROXY_PATH}?url=${encodeURIComponent(url)}${listener ? `&listener=${encodeURIComponent(listener)}` : ""}`;
+
+/**
+ * Checks whether a URL already points at the stream proxy.
+ */
+export const isProxyUrl = (url: string) => url.startsWith(`${STREAM_PROXY_PATH}?`);
+
+/**
+ * Returns the upstream URL of a proxy URL, or the URL itself if it isn't proxied.
+ */
+export const fromProxyUrl = (url: string) => (isProxyUrl(url) ? (new URLSearchParams(url.slice(url.indexOf("?") + 1)).get("url") ?? url) : url);
+
+/**
+ * Returns the listener ID of a proxy URL, or null if the proxy doesn't publish its metadata.
+ */
+export const getProxyListener = (url: string) => (isProxyUrl(url) ? new URLSearchParams(url.slice(url.indexOf("?") + 1)).get("listener") : null);
+
+/**
+ * Checks whether the browser would block the URL as mixed content, i.e. an
+ * `http://` stream requested from a page served over `https://`.
+ */
+export const isMixedContent = (url: string) => {
+    if (typeof window === "undefined") return false;
+
+    return window.location.protocol === "https:" && url.startsWith("http://");
+};
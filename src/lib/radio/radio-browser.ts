@@ -0,0 +1,251 @@
+import { isHlsCodec } from "./hls";
+
+/** Endpoint that lists every public Radio Browser mirror. */
+const MIRRORS_URL = "https://all.api.radio-browser.info/json/servers";
+
+/** Mirrors used when the mirror list itself can't be fetched. */
+const FALLBACK_MIRRORS = ["https://de1.api.radio-browser.info", "https://de2.api.radio-browser.info", "https://fi1.api.radio-browser.info"];
+
+const DEFAULT_CACHE_TTL = 5 * 60 * 1000;
+const DEFAULT_TIMEOUT = 8000;
+
+/**
+ * A station as returned by the Radio Browser API.
+ *
+ * @see https://de1.api.radio-browser.info/#Struct_station
+ */
+export interface RadioBrowserStation {
+    stationuuid: string;
+    changeuuid: string;
+    serveruuid: string | null;
+    name: string;
+    url: string;
+    /** The stream URL after following playlists and redirects. */
+    url_resolved: string;
+    homepage: string;
+    favicon: string;
+    /** Comma-separated list of tags. */
+    tags: string;
+    country: string;
+    countrycode: string;
+    iso_3166_2: string | null;
+    state: string;
+    /** Comma-separated list of languages. */
+    language: string;
+    languagecodes: string;
+    votes: number;
+    lastchangetime_iso8601: string | null;
+    codec: string;
+    /** Bitrate in kbps, 0 when unknown. */
+    bitrate: number;
+    hls: 0 | 1;
+    lastcheckok: 0 | 1;
+    lastchecktime_iso8601: string | null;
+    lastcheckoktime_iso8601: string | null;
+    clickcount: number;
+    clicktrend: number;
+    ssl_error: 0 | 1;
+    geo_lat: number | null;
+    geo_long: number | null;
+    has_extended_info: boolean;
+}
+
+export interface StationSearchParams {
+    name?: string;
+    nameExact?: boolean;
+    tag?: string;
+    tagList?: string[];
+    language?: string;
+    country?: string;
+    countrycode?: string;
+    codec?: string;
+    bitrateMin?: number;
+    order?: "name" | "votes" | "clickcount" | "clicktrend" | "bitrate" | "random" | "lastcheckok";
+    reverse?: boolean;
+    limit?: number;
+    offset?: number;
+    hidebroken?: boolean;
+}
+
+interface RadioBrowserServer {
+    ip: string;
+    name: string;
+}
+
+export interface RadioBrowserClientOptions {
+    /**
+     * A fixed API base URL, e.g. a local mock server. When set, mirror
+     * discovery is skipped and every request goes to this URL.
+     */
+    baseUrl?: string;
+    /** The endpoint that lists the available mirrors. */
+    mirrorsUrl?: string;
+    /** How long responses are cached, in milliseconds. */
+    cacheTtl?: number;
+    /** Per-request timeout, in milliseconds. */
+    timeout?: number;
+}
+
+export class RadioBrowserError extends Error {
+    constructor(
+        message: string,
+        /** The mirrors that were attempted before giving up. */
+        public readonly mirrors: string[],
+    ) {
+        super(message);
+        this.name = "RadioBrowserError";
+    }
+}
+
+/**
+ * Checks whether a Radio Browser station has a usable http(s) stream URL.
+ */
+export const isPlayableStation = (station: RadioBrowserStation) => station.url?.startsWith("http") && station.url_resolved?.startsWith("http");
+
+/**
+ * Returns the best stream URL of a Radio Browser station.
+ */
+export const getStreamUrl = (station: RadioBrowserStation) => station.url_resolved || station.url;
+
+/**
+ * Checks whether Radio Browser lists a station's stream as HLS.
+ */
+export const isHlsStation = (station: RadioBrowserStation) => station.hls === 1 || isHlsCodec(station.codec);
+
+const toQueryString = (params: Record<string, string | number | boolean | string[] | undefined>) => {
+    const query = new URLSearchParams();
+
+    for (const [key, value] of Object.entries(params)) {
+        if (value === undefined || value === "") continue;
+
+        query.set(key, Array.isArray(value) ? value.join(",") : String(value));
+    }
+
+    return query.toString();
+};
+
+/**
+ * A typed client for the Radio Browser API that discovers the available
+ * mirrors, fails over to the next mirror when one is down and caches responses.
+ */
+export class RadioBrowserClient {
+    private readonly baseUrl?: string;
+    private readonly mirrorsUrl: string;
+    private readonly cacheTtl: number;
+    private readonly timeout: number;
+    private readonly cache = new Map<string, { expires: number; promise: Promise<unknown> }>();
+    private mirrors: Promise<string[]> | null = null;
+    private mirrorIndex = 0;
+
+    constructor({ baseUrl, mirrorsUrl = MIRRORS_URL, cacheTtl = DEFAULT_CACHE_TTL, timeout = DEFAULT_TIMEOUT }: RadioBrowserClientOptions = {}) {
+        this.baseUrl = baseUrl?.replace(/\/+$/, "");
+        this.mirrorsUrl = mirrorsUrl;
+        this.cacheTtl = cacheTtl;
+        this.timeout = timeout;
+    }
+
+    /**
+     * Searches stations with the given filters.
+     */
+    searchStations(params: StationSearchParams) {
+        return this.get<RadioBrowserStation[]>(`/json/stations/search?${toQueryString({ ...params })}`);
+    }
+
+    /**
+     * Fetches stations by their UUIDs.
+     */
+    getStationsByUuid(uuids: string[]) {
+        return this.get<RadioBrowserStation[]>(`/json/stations/byuuid?${toQueryString({ uuids })}`);
+    }
+
+    /**
+     * Resolves the list of mirror base URLs to use, discovering them once.
+     */
+    getMirrors() {
+        if (this.baseUrl) return Promise.resolve([this.baseUrl]);
+
+        this.mirrors ??= this.fetchWithTimeout(this.mirrorsUrl)
+            .then((response) => (response.ok ? (response.json() as Promise<RadioBrowserServer[]>) : []))
+            .then((servers) => {
+                const names = Array.from(new Set(servers.map((server) => server.name)));
+                return names.length > 0 ? names.map((name) => `https://${name}`) : FALLBACK_MIRRORS;
+            })
+            .catch(() => FALLBACK_MIRRORS);
+
+        return this.mirrors;
+    }
+
+    /**
+     * Clears all cached responses.
+     */
+    clearCache() {
+        this.cache.clear();
+    }
+
+    private get<T>(path: string): Promise<T> {
+        const cached = this.cache.get(path);
+
+        if (cached && cached.expires > Date.now()) {
+            return cached.promise as Promise<T>;
+        }
+
+        const promise = this.request<T>(path);
+
+        this.cache.set(path, { expires: Date.now() + this.cacheTtl, promise });
+        // Failed requests are not cached so the next call retries.
+        promise.catch(() => this.cache.delete(path));
+
+        return promise;
+    }
+
+    private async request<T>(path: string): Promise<T> {
+        const mirrors = await this.getMirrors();
+        const attempted: string[] = [];
+
+        for (let i = 0; i < mirrors.length; i++) {
+            const mirror = mirrors[(this.mirrorIndex + i) % mirrors.length];
+            attempted.push(mirror);
+
+            try {
+                const response = await this.fetchWithTimeout(`${mirror}${path}`);
+
+                if (!response.ok) {
+                    throw new Error(`Request failed with status ${response.status}`);
+                }
+
+                const data = (await response.json()) as T;
+
+                // Stick with the mirror that answered for subsequent requests.
+                this.mirrorIndex = (this.mirrorIndex + i) % mirrors.length;
+
+                return data;
+            } catch (error) {
+                console.warn(`Radio Browser mirror ${mirror} failed:`, error);
+            }
+        }
+
+        throw new RadioBrowserError("All Radio Browser mirrors failed.", attempted);
+    }
+
+    private async fetchWithTimeout(url: string) {
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), this.timeout);
+
+        try {
+            return await fetch(url, {
+                signal: controller.signal,
+                headers: {
+                    Accept: "application/json",
+                },
+            });
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+}
+
+/**
+ * The shared client. Set `NEXT_PUBLIC_RADIO_BROWSER_URL` to point it at a
+ * specific mirror or a local mock server.
+ */
+export const radioBrowser = new RadioBrowserClient({ baseUrl: process.env.NEXT_PUBLIC_RADIO_BROWSER_URL || undefined });
@@ -0,0 +1,69 @@
+import { normalizeStationName } from "./catalog";
+import type { RadioBrowserStation } from "./radio-browser";
+
+/** Matches at or above this confidence are played without asking. */
+export const AUTO_PLAY_CONFIDENCE = 0.75;
+
+/** How many candidates to offer when a search is ambiguous. */
+export const MAX_CANDIDATES = 5;
+
+export interface StationCandidate {
+    station: RadioBrowserStation;
+    /** How well the station name matches the query, from 0 to 1. */
+    score: number;
+}
+
+export interface RankedStations {
+    /** Candidates ordered from best to worst match. */
+    candidates: StationCandidate[];
+    /** How sure we are the first candidate is the one the listener meant, from 0 to 1. */
+    confidence: number;
+}
+
+/**
+ * Scores how well a station name matches a query, from 0 to 1.
+ */
+const scoreName = (query: string, name: string) => {
+    const normalizedName = normalizeStationName(name);
+
+    if (normalizedName === query) return 1;
+    if (normalizedName.startsWith(`${query} `)) return 0.9;
+
+    const queryTokens = query.split(" ");
+    const nameTokens = new Set(normalizedName.split(" "));
+    const matched = queryTokens.filter((token) => nameTokens.has(token)).length;
+
+    if (matched === queryTokens.length) return 0.75;
+
+    return (matched / queryTokens.length) * 0.6;
+};
+
+/**
+ * Ranks Radio Browser search results against the query the listener typed.
+ *
+ * Confidence combines how well the best name matches with how clearly it
+ * stands out: two equally good name matches split by votes, so "Radio City"
+ * only auto-plays when one of the stations with that name is far more popular
+ * than the rest.
+ */
+export const rankStations = (query: string, stations: RadioBrowserStation[]): RankedStations => {
+    const normalizedQuery = normalizeStationName(query);
+
+    const candidates = stations
+        .map((station) => ({ station, score: scoreName(normalizedQuery, station.name) }))
+        .sort((a, b) => b.score - a.score || b.station.votes - a.station.votes)
+        .slice(0, MAX_CANDIDATES);
+
+    if (candidates.length === 0) return { candidates, confidence: 0 };
+
+    const [best, ...rest] = candidates;
+    // The strongest competitor with a comparably good name match.
+    const rival = rest.find((candidate) => candidate.score >= best.score - 0.1);
+
+    if (!rival) return { candidates, confidence: best.score };
+
+    const votes = Math.max(best.station.votes, 0) + Math.max(rival.station.votes, 0);
+    const dominance = votes > 0 ? best.station.votes / votes : 0.5;
+
+    return { candidates, confidence: best.score * Math.max(0, 2 * dominance - 1) };
+};
@@ -0,0 +1,155 @@
+import { fromProxyUrl, toProxyUrl } from "./proxy";
+
+/** How often the media recorder hands over audio, in milliseconds. */
+const RECORDER_TIMESLICE = 1000;
+
+/** How much of a copied stream is collected before it's written out, in bytes. */
+const STREAM_CHUNK_SIZE = 1024 * 1024;
+
+/** Audio formats the media recorder is asked for, in order of preference. */
+const RECORDER_TYPES = ["audio/webm;codecs=opus", "audio/ogg;codecs=opus", "audio/mp4"];
+
+export class RecordingError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "RecordingError";
+    }
+}
+
+/** What was recorded, once a capture stopped. */
+export interface CaptureResult {
+    type: string;
+    /** The size of the audio in bytes. */
+    size: number;
+}
+
+/** A capture in progress. */
+export interface Capture {
+    /** Resolves once the capture stopped and all of its audio was written, or rejects if it failed. */
+    done: Promise<CaptureResult>;
+    /** Stops the capture, keeping what was recorded so far. */
+    stop: () => void;
+}
+
+/**
+ * Stores a piece of recorded audio. Pieces are written in order, and the
+ * capture waits for one to be stored before it writes the next, so long
+ * recordings don't pile up in memory.
+ */
+export type ChunkWriter = (chunk: Blob) => Promise<void>;
+
+/**
+ * Wraps a chunk writer so failures read as a recording error.
+ */
+const toSafeWriter =
+    (write: ChunkWriter): ChunkWriter =>
+    (chunk) =>
+        write(chunk).catch(() => {
+            throw new RecordingError("The recording couldn't be saved. The browser may be out of storage.");
+        });
+
+/**
+ * Copies a progressive stream through the stream proxy, which makes any
+ * station readable regardless of CORS and mixed content.
+ *
+ * @param write Stores the audio as it arrives, in pieces of about a megabyte.
+ * @param onProgress Called with the number of bytes recorded so far.
+ */
+export const captureStream = (url: string, write: ChunkWriter, onProgress: (bytes: number) => void): Capture => {
+    const controller = new AbortController();
+    const save = toSafeWriter(write);
+    let pending: Uint8Array<ArrayBuffer>[] = [];
+    let pendingBytes = 0;
+    let bytes = 0;
+    let type = "audio/mpeg";
+
+    const flush = async () => {
+        if (pendingBytes === 0) return;
+
+        const chunk = new Blob(pending, { type });
+        pending = [];
+        pendingBytes = 0;
+        await save(chunk);
+    };
+
+    const read = async () => {
+        const response = await fetch(toProxyUrl(fromProxyUrl(url)), { signal: controller.signal, cache: "no-store" });
+
+        if (!response.ok || !response.body) {
+            throw new RecordingError(`The stream couldn't be opened (HTTP ${response.status}).`);
+        }
+
+        type = response.headers.get("content-type")?.split(";")[0].trim() || type;
+
+        const reader = response.body.getReader();
+
+        for (let result = await reader.read(); !result.done; result = await reader.read()) {
+            pending.push(result.value);
+            pendingBytes += result.value.byteLength;
+            bytes += result.value.byteLength;
+            onProgress(bytes);
+
+            if (pendingBytes >= STREAM_CHUNK_SIZE) await flush();
+        }
+    };
+
+    const done = read()
+        .catch((error: unknown) => {
+            if (error instanceof RecordingError) {
+                // Includes failed writes, after which the stream is of no use
+                controller.abort();
+                throw error;
+            }
+
+            // Stopping aborts the request; whatever arrived until then is the recording
+            if (!controller.signal.aborted) throw new RecordingError("The stream couldn't be reached.");
+        })
+        .then(flush)
+        .then(() => ({ type, size: bytes }));
+
+    return { done, stop: () => controller.abort() };
+};
+
+/**
+ * Records what an audio element plays. Used for HLS streams, which arrive as
+ * many small segments instead of one stream that could be copied.
+ *
+ * @param write Stores the audio as it arrives, a second at a time.
+ * @param onProgress Called with the number of bytes recorded so far.
+ */
+export const captureElement = (audio: HTMLMediaElement, write: ChunkWriter, onProgress: (bytes: number) => void): Capture => {
+    const element = audio as HTMLMediaElement & { captureStream?: () => MediaStream };
+
+    if (typeof MediaRecorder === "undefined" || !element.captureStream) {
+        return { done: Promise.reject(new RecordingError("This browser can't record what's playing.")), stop: () => {} };
+    }
+
+    const mimeType = RECORDER_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(element.captureStream(), mimeType ? { mimeType } : undefined);
+    const save = toSafeWriter(write);
+    let writes = Promise.resolve();
+    let bytes = 0;
+
+    const done = new Promise<CaptureResult>((resolve, reject) => {
+        recorder.ondataavailable = (event) => {
+            if (event.data.size === 0) return;
+
+            writes = writes.then(() => save(event.data));
+            // There's no point in recording what can't be stored
+            writes.catch(() => recorder.state !== "inactive" && recorder.stop());
+            bytes += event.data.size;
+            onProgress(bytes);
+        };
+        recorder.onstop = () => resolve(writes.then(() => ({ type: recorder.mimeType.split(";")[0] || "audio/webm", size: bytes })));
+        recorder.onerror = () => reject(new RecordingError("Recording stopped unexpectedly."));
+    });
+
+    recorder.start(RECORDER_TIMESLICE);
+
+    return {
+        done,
+        stop: () => {
+            if (recorder.state !== "inactive") recorder.stop();
+        },
+    };
+};
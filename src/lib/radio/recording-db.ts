@@ -0,0 +1,118 @@
+import type { Recording } from "./recordings";
+
+const DATABASE_NAME = "radio-chatbot";
+const DATABASE_VERSION = 2;
+const STORE_NAME = "recordings";
+/** The audio of recordings, stored piece by piece while they're recorded. */
+const CHUNK_STORE_NAME = "recording-chunks";
+
+/** A recording as it's stored. */
+interface StoredRecording extends Recording {
+    /** The whole audio, for recordings saved before it was stored in chunks. */
+    blob?: Blob;
+}
+
+interface StoredChunk {
+    recording: string;
+    index: number;
+    blob: Blob;
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens the database once and reuses the connection. Recordings are kept in
+ * IndexedDB rather than `localStorage`, which can't hold audio.
+ */
+const openDatabase = () => {
+    database ??= new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+
+        request.onupgradeneeded = () => {
+            const db = request.result;
+
+            if (!db.objectStoreNames.contains(STORE_NAME)) db.createObjectStore(STORE_NAME, { keyPath: "id" });
+            if (!db.objectStoreNames.contains(CHUNK_STORE_NAME)) db.createObjectStore(CHUNK_STORE_NAME, { keyPath: ["recording", "index"] });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    }).catch((error) => {
+        // Let the next call try again, e.g. after the listener allowed storage
+        database = null;
+        throw error;
+    });
+
+    return database;
+};
+
+/**
+ * Runs a single request against a store, the recordings store unless set otherwise.
+ */
+const run = async <T>(mode: IDBTransactionMode, createRequest: (store: IDBObjectStore) => IDBRequest<T>, storeName = STORE_NAME) => {
+    const db = await openDatabase();
+
+    return new Promise<T>((resolve, reject) => {
+        const request = createRequest(db.transaction(storeName, mode).objectStore(storeName));
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+/**
+ * Returns every saved recording, newest first, without its audio.
+ */
+export const listRecordings = async (): Promise<Recording[]> => {
+    const stored = await run<StoredRecording[]>("readonly", (store) => store.getAll());
+
+    return stored.map(({ blob: _blob, ...recording }) => recording).sort((a, b) => b.startedAt - a.startedAt);
+};
+
+/** Every chunk key of a recording. */
+const getChunkRange = (id: string) => IDBKeyRange.bound([id, 0], [id, Infinity]);
+
+/**
+ * Returns the audio of a recording, or null if it was deleted. The chunks are
+ * joined without being read, so even hours of audio don't have to fit in memory.
+ */
+export const getRecordingBlob = async (id: string) => {
+    const stored = await run<StoredRecording | undefined>("readonly", (store) => store.get(id));
+    if (!stored) return null;
+    if (stored.blob) return stored.blob;
+
+    const chunks = await run<StoredChunk[]>("readonly", (store) => store.getAll(getChunkRange(id)), CHUNK_STORE_NAME);
+
+    return new Blob(
+        chunks.map((chunk) => chunk.blob),
+        { type: stored.mimeType },
+    );
+};
+
+/**
+ * Stores the next piece of audio of a recording in progress.
+ *
+ * @param index The position of the chunk in the recording, counting from 0.
+ */
+export const saveRecordingChunk = (id: string, index: number, blob: Blob) =>
+    run("readwrite", (store) => store.put({ recording: id, index, blob } satisfies StoredChunk), CHUNK_STORE_NAME);
+
+/**
+ * Saves a finished recording, whose audio was stored with `saveRecordingChunk`.
+ */
+export const saveRecording = (recording: Recording) => run("readwrite", (store) => store.put(recording satisfies StoredRecording));
+
+/**
+ * Deletes a recording and its audio, or the audio stored so far of a recording that failed.
+ */
+export const deleteRecording = async (id: string) => {
+    const db = await openDatabase();
+
+    return new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction([STORE_NAME, CHUNK_STORE_NAME], "readwrite");
+
+        transaction.objectStore(STORE_NAME).delete(id);
+        transaction.objectStore(CHUNK_STORE_NAME).delete(getChunkRange(id));
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
@@ -0,0 +1,105 @@
+import type { StreamHandle } from "./probe";
+import { asRecord, createStore } from "./storage";
+
+/** Recordings without a set length stop after this long, in milliseconds, so they can't fill up the browser's storage. */
+export const MAX_RECORDING_DURATION = 4 * 60 * 60000;
+
+/**
+ * How a recording captures the station:
+ * - `stream` copies the station's stream byte for byte through the stream
+ *   proxy. Nothing is re-encoded and the station doesn't have to be playing,
+ *   but it only works for progressive streams.
+ * - `element` records what the player's audio element plays with a
+ *   `MediaRecorder`, which also works for HLS but only while the station plays.
+ */
+export type RecordingMethod = "stream" | "element";
+
+/** A finished recording. The audio itself is kept in IndexedDB. */
+export interface Recording {
+    id: string;
+    station: string;
+    /** When the recording started, in milliseconds since the epoch. */
+    startedAt: number;
+    /** How long the recording is, in milliseconds. */
+    duration: number;
+    /** The size of the audio in bytes. */
+    size: number;
+    mimeType: string;
+}
+
+/** A recording that starts by itself at a set time. */
+export interface ScheduledRecording {
+    id: string;
+    station: string;
+    /** The stream to record. */
+    url: string;
+    /** When to start recording, in milliseconds since the epoch. */
+    startsAt: number;
+    /** How long to record, in milliseconds. */
+    duration: number;
+}
+
+const EXTENSIONS: Record<string, string> = {
+    "audio/mpeg": "mp3",
+    "audio/aac": "aac",
+    "audio/aacp": "aac",
+    "audio/mp4": "m4a",
+    "audio/ogg": "ogg",
+    "audio/webm": "webm",
+    "audio/flac": "flac",
+    "audio/wav": "wav",
+};
+
+/**
+ * Picks how to record a stream of the given kind.
+ */
+export const getRecordingMethod = (kind: StreamHandle["kind"]): RecordingMethod => (kind === "hls" ? "element" : "stream");
+
+/**
+ * Returns the file extension for the audio type of a recording.
+ */
+export const getRecordingExtension = (mimeType: string) => EXTENSIONS[mimeType.split(";")[0].trim().toLowerCase()] ?? "audio";
+
+/**
+ * Returns the file name a recording is downloaded as, e.g. `Kodai FM 2026-10-19 07.00.mp3`.
+ */
+export const getRecordingFileName = (recording: Pick<Recording, "station" | "startedAt" | "mimeType">) => {
+    const date = new Date(recording.startedAt);
+    const pad = (value: number) => String(value).padStart(2, "0");
+    const stamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}.${pad(date.getMinutes())}`;
+    // Characters that aren't allowed in file names on some systems
+    const station = recording.station.replace(/[\\/:*?"<>|]+/g, " ").trim() || "Recording";
+
+    return `${station} ${stamp}.${getRecordingExtension(recording.mimeType)}`;
+};
+
+const parseSchedule = (value: unknown): ScheduledRecording | null => {
+    const record = asRecord(value);
+
+    if (
+        !record ||
+        typeof record.id !== "string" ||
+        typeof record.station !== "string" ||
+        typeof record.url !== "string" ||
+        typeof record.startsAt !== "number" ||
+        typeof record.duration !== "number"
+    ) {
+        return null;
+    }
+
+    return { id: record.id, station: record.station, url: record.url, startsAt: record.startsAt, duration: record.duration };
+};
+
+const parseSchedules = (value: unknown) => {
+    if (!Array.isArray(value)) return null;
+
+    const now = Date.now();
+
+    // Recordings that would have finished while the app was closed were missed for good
+    return value
+        .map(parseSchedule)
+        .filter((schedule): schedule is ScheduledRecording => schedule !== null && schedule.startsAt + schedule.duration > now)
+        .sort((a, b) => a.startsAt - b.startsAt);
+};
+
+export const schedulesStore = createStore<ScheduledRecording[]>("scheduled-recordings", [], parseSchedules);
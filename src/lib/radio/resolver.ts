@@ -0,0 +1,278 @@
+import { matchStation } from "./catalog";
+import { isHlsCodec } from "./hls";
+import type { RadioMode } from "./modes";
+import { acceptsCatalogStation, filterDirectoryStations } from "./modes";
+import { detectPlaylistFormat, parsePlaylist } from "./playlist";
+import { isMixedContent, isProxyUrl, toProxyUrl } from "./proxy";
+import type { RadioBrowserClient } from "./radio-browser";
+import { getStreamUrl, isHlsStation, isPlayableStation, radioBrowser } from "./radio-browser";
+import { rankStations } from "./ranking";
+
+export type StrategyName = "catalog" | "radio-browser" | "proxy" | "playlist";
+
+export type AttemptErrorType = "timeout" | "network" | "decode" | "unsupported" | "mixed-content" | "lookup" | "aborted";
+
+export interface ResolveAttempt {
+    url: string;
+    strategy: StrategyName;
+    outcome: "success" | "failure" | "skipped";
+    errorType?: AttemptErrorType;
+    error?: string;
+    /** How long the attempt took, in milliseconds. */
+    latency: number;
+}
+
+export interface ResolveRequest {
+    /** The station name the listener asked for. */
+    name: string;
+    /** Stream URLs already known for the station, in order of preference. */
+    urls: string[];
+    /** Whether the known URLs are HLS streams, e.g. from the directory's codec field. */
+    hls?: boolean;
+    /** The station's logo, shown by the operating system's media controls. */
+    favicon?: string;
+    /**
+     * The search mode the station was asked for in. Strategies only look where
+     * the mode searches and only offer streams it plays; without one, anything goes.
+     */
+    mode?: RadioMode;
+    /**
+     * Whether the listener picked this exact station, e.g. from a list or their
+     * favorites, rather than naming it. Only its own streams are tried then, so
+     * another station with a similar name never plays in its place.
+     */
+    explicit?: boolean;
+}
+
+/** A stream URL to try, with what is already known about its format. */
+export interface StreamCandidate {
+    url: string;
+    /** Whether the stream is known to be HLS. URLs ending in `.m3u8` are detected either way. */
+    hls?: boolean;
+}
+
+export type ResolveResult<T> =
+    | { ok: true; url: string; strategy: StrategyName; value: T; attempts: ResolveAttempt[] }
+    | { ok: false; attempts: ResolveAttempt[] };
+
+export interface StrategyContext {
+    request: ResolveRequest;
+    /** Every attempt made by the strategies that ran before. */
+    attempts: readonly ResolveAttempt[];
+    signal: AbortSignal;
+}
+
+export interface ResolveStrategy {
+    name: StrategyName;
+    /** Returns the streams this strategy wants to try, in order. */
+    getCandidates: (context: StrategyContext) => Promise<StreamCandidate[]>;
+}
+
+/**
+ * Checks whether a URL can actually produce audio. Resolves with whatever the
+ * caller needs to start playback, e.g. a loaded audio element, and rejects
+ * with a `StreamError` otherwise.
+ */
+export type StreamProbe<T> = (candidate: StreamCandidate, signal: AbortSignal) => Promise<T>;
+
+export class StreamError extends Error {
+    constructor(
+        message: string,
+        public readonly type: AttemptErrorType,
+    ) {
+        super(message);
+        this.name = "StreamError";
+    }
+}
+
+/** How many failed URLs are checked for being playlist files. */
+const MAX_PLAYLIST_CHECKS = 6;
+
+const failedUrls = (attempts: readonly ResolveAttempt[]) =>
+    attempts.filter((attempt) => attempt.outcome !== "success" && attempt.url && !isProxyUrl(attempt.url)).map((attempt) => attempt.url);
+
+/**
+ * Plays the URLs we already know for the station, followed by the streams of
+ * the matching catalog entry if the request's mode plays it. Explicit picks
+ * only play their own URLs.
+ */
+export const catalogStrategy: ResolveStrategy = {
+    name: "catalog",
+    getCandidates: async ({ request }) => {
+        const station = request.explicit ? undefined : matchStation(request.name);
+        const streams = station && (!request.mode || acceptsCatalogStation(request.mode, station)) ? station.streams : [];
+
+        return [...request.urls.map((url) => ({ url, hls: request.hls })), ...streams.map((url) => ({ url, hls: isHlsCodec(station?.codec) }))];
+    },
+};
+
+/**
+ * Looks the requested station name up on Radio Browser and tries the best
+ * matches the request's mode plays. Modes that don't search the directory
+ * skip it, and so do explicit picks.
+ */
+export const createRadioBrowserStrategy = (client: RadioBrowserClient = radioBrowser, limit = 3): ResolveStrategy => ({
+    name: "radio-browser",
+    getCandidates: async ({ request }) => {
+        const { mode } = request;
+        if (request.explicit || (mode && !mode.searchesDirectory)) return [];
+
+        const stations = await client.searchStations({
+            name: request.name,
+            limit: 20,
+            order: "votes",
+            reverse: true,
+            hidebroken: true,
+            bitrateMin: mode?.bitrateMin,
+        });
+        const playable = stations.filter(isPlayableStation);
+        const { candidates } = rankStations(request.name, mode ? filterDirectoryStations(mode, playable) : playable);
+
+        return candidates.slice(0, limit).map(({ station }) => ({ url: getStreamUrl(station), hls: isHlsStation(station) }));
+    },
+});
+
+/**
+ * Loads a URL through the stream proxy and, if the response turns out to be a
+ * playlist file, returns the streams it lists. Audio streams are dropped as
+ * soon as their headers arrive.
+ */
+const fetchPlaylistEntries = async (url: string, signal: AbortSignal) => {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal.addEventListener("abort", abort);
+
+    try {
+        const response = await fetch(toProxyUrl(url), { signal: controller.signal });
+        const format = response.ok ? detectPlaylistFormat(url, response.headers.get("content-type")) : null;
+
+        if (!format) return [];
+
+        const text = await response.text();
+
+        // HLS manifests share the M3U syntax but are played as streams.
+        if (/#EXT-X-/i.test(text)) return [];
+
+        return parsePlaylist(text, format, response.headers.get("x-stream-url") ?? url);
+    } finally {
+        signal.removeEventListener("abort", abort);
+        controller.abort();
+    }
+};
+
+/**
+ * Expands failed URLs that turn out to be playlist files (.pls, .m3u, .asx,
+ * .xspf) into the streams they list, in playlist order.
+ */
+export const playlistStrategy: ResolveStrategy = {
+    name: "playlist",
+    getCandidates: async ({ attempts, signal }) => {
+        const entries: StreamCandidate[] = [];
+
+        for (const url of failedUrls(attempts).slice(0, MAX_PLAYLIST_CHECKS)) {
+            const playlist = await fetchPlaylistEntries(url, signal).catch(() => []);
+            entries.push(...playlist.map((entry) => ({ url: entry.url })));
+        }
+
+        return entries;
+    },
+};
+
+/**
+ * Retries every stream that failed or was skipped through our own stream
+ * proxy, which gets around missing CORS headers and mixed content. The proxy
+ * also reads the station's ICY metadata out of the stream it passes on.
+ */
+export const proxyStrategy: ResolveStrategy = {
+    name: "proxy",
+    getCandidates: async ({ attempts }) =>
+        failedUrls(attempts)
+            .filter((url) => !detectPlaylistFormat(url))
+            .map((url) => ({ url: toProxyUrl(url, crypto.randomUUID()) })),
+};
+
+export const defaultStrategies = [catalogStrategy, createRadioBrowserStrategy(), playlistStrategy, proxyStrategy];
+
+const toAttemptError = (error: unknown, signal: AbortSignal): Pick<ResolveAttempt, "errorType" | "error"> => {
+    if (error instanceof StreamError) return { errorType: error.type, error: error.message };
+    if (signal.aborted) return { errorType: "aborted", error: "The request was cancelled." };
+
+    return { errorType: "network", error: error instanceof Error ? error.message : String(error) };
+};
+
+/**
+ * Finds a playable stream for a station by running a list of strategies in
+ * order and probing every URL they suggest until one produces audio. Every
+ * attempt is recorded so failures can be explained to the listener.
+ */
+export class StreamResolver<T> {
+    constructor(
+        private readonly probe: StreamProbe<T>,
+        private readonly strategies: ResolveStrategy[] = defaultStrategies,
+    ) {}
+
+    async resolve(request: ResolveRequest, signal: AbortSignal): Promise<ResolveResult<T>> {
+        const attempts: ResolveAttempt[] = [];
+        const tried = new Set<string>();
+
+        for (const strategy of this.strategies) {
+            if (signal.aborted) break;
+
+            let candidates: StreamCandidate[];
+            const lookupStart = performance.now();
+
+            try {
+                candidates = await strategy.getCandidates({ request, attempts, signal });
+            } catch (error) {
+                attempts.push({
+                    url: "",
+                    strategy: strategy.name,
+                    outcome: "failure",
+                    errorType: signal.aborted ? "aborted" : "lookup",
+                    error: error instanceof Error ? error.message : String(error),
+                    latency: Math.round(performance.now() - lookupStart),
+                });
+                continue;
+            }
+
+            for (const candidate of candidates) {
+                const { url } = candidate;
+
+                if (signal.aborted) break;
+                if (tried.has(url)) continue;
+                tried.add(url);
+
+                if (isMixedContent(url)) {
+                    attempts.push({
+                        url,
+                        strategy: strategy.name,
+                        outcome: "skipped",
+                        errorType: "mixed-content",
+                        error: "Insecure stream on a secure page.",
+                        latency: 0,
+                    });
+                    continue;
+                }
+
+                const start = performance.now();
+
+                try {
+                    const value = await this.probe(candidate, signal);
+                    attempts.push({ url, strategy: strategy.name, outcome: "success", latency: Math.round(performance.now() - start) });
+
+                    return { ok: true, url, strategy: strategy.name, value, attempts };
+                } catch (error) {
+                    attempts.push({
+                        url,
+                        strategy: strategy.name,
+                        outcome: "failure",
+                        latency: Math.round(performance.now() - start),
+                        ...toAttemptError(error, signal),
+                    });
+                }
+            }
+        }
+
+        return { ok: false, attempts };
+    }
+}
@@ -0,0 +1,71 @@
+import type { useHotkeysContext } from "react-hotkeys-hook";
+
+/** A hotkey registered with the hotkeys provider. */
+type Hotkey = ReturnType<typeof useHotkeysContext>["hotkeys"][number];
+
+/** A keyboard shortcut of the player. */
+export interface Shortcut {
+    /** The keys in react-hotkeys-hook syntax, e.g. `mod+k` or `1,2,3`. */
+    keys: string;
+    /** What the shortcut does, as listed in the shortcuts overlay. */
+    description: string;
+    /** Whether the shortcut also works while typing in a text field. */
+    whileTyping?: boolean;
+}
+
+/**
+ * Every keyboard shortcut of the player, so they're defined in one place and
+ * can't silently shadow each other.
+ */
+export const SHORTCUTS = {
+    playPause: { keys: "space", description: "Play or pause" },
+    mute: { keys: "m", description: "Mute or unmute" },
+    volumeUp: { keys: "up", description: "Turn the volume up" },
+    volumeDown: { keys: "down", description: "Turn the volume down" },
+    presets: { keys: "1,2,3,4,5,6,7,8,9", description: "Play a preset" },
+    focusChat: { keys: "slash", description: "Ask for a station" },
+    stationSearch: { keys: "mod+k", description: "Search stations", whileTyping: true },
+    help: { keys: "shift+slash", description: "Show keyboard shortcuts" },
+} satisfies Record<string, Shortcut>;
+
+export type ShortcutId = keyof typeof SHORTCUTS;
+
+/**
+ * Returns the keys pressed for a hotkey, with `mod` resolved to the key it
+ * stands for on the platform.
+ */
+const getCombination = (hotkey: Hotkey, isApple: boolean) => {
+    const modifiers = [
+        hotkey.alt && "alt",
+        (hotkey.ctrl || (hotkey.mod && !isApple)) && "ctrl",
+        (hotkey.meta || (hotkey.mod && isApple)) && "meta",
+        hotkey.shift && "shift",
+    ].filter(Boolean);
+
+    return [...modifiers, (hotkey.keys ?? []).join(hotkey.isSequence ? ">" : "+")].join("+");
+};
+
+/**
+ * Finds registered hotkeys that are bound to the same keys but do different
+ * things, where only one of them would work.
+ *
+ * @returns The hotkey strings, e.g. `mod+k`, of every binding that conflicts.
+ */
+export const getShortcutConflicts = (hotkeys: readonly Hotkey[], isApple: boolean) => {
+    const byCombination = new Map<string, Hotkey[]>();
+
+    for (const hotkey of hotkeys) {
+        const combination = getCombination(hotkey, isApple);
+        byCombination.set(combination, [...(byCombination.get(combination) ?? []), hotkey]);
+    }
+
+    const conflicts = new Set<string>();
+
+    for (const bound of byCombination.values()) {
+        if (new Set(bound.map((hotkey) => hotkey.description)).size > 1) {
+            bound.forEach((hotkey) => conflicts.add(hotkey.hotkey));
+        }
+    }
+
+    return conflicts;
+};
@@ -0,0 +1,84 @@
+import { getStations, normalizeStationName } from "./catalog";
+import type { FavoriteStation } from "./favorites";
+import { getFavoriteId } from "./favorites";
+import { isHlsCodec } from "./hls";
+import type { RadioMode } from "./modes";
+import { acceptsCatalogStation } from "./modes";
+import type { RadioBrowserStation } from "./radio-browser";
+import { getStreamUrl, isHlsStation } from "./radio-browser";
+
+/** How many favorites and catalog stations are suggested at most. */
+const MAX_LOCAL_RESULTS = 8;
+
+/** A station found by the station search, ready to play. */
+export interface StationSearchResult {
+    id: string;
+    name: string;
+    /** Why or where the station was found, e.g. `Favorite` or `India · MP3 · 128 kbps`. */
+    detail: string;
+    /** Stream URLs in the order they should be attempted. */
+    urls: string[];
+    hls?: boolean;
+    favicon?: string;
+}
+
+const fromFavorite = (station: FavoriteStation): StationSearchResult => ({
+    id: `favorite:${station.id}`,
+    name: station.name,
+    detail: "Favorite",
+    urls: [station.url],
+    hls: station.hls,
+    favicon: station.favicon,
+});
+
+/**
+ * Converts a Radio Browser station into a search result.
+ */
+export const toStationSearchResult = (station: RadioBrowserStation): StationSearchResult => ({
+    id: station.stationuuid,
+    name: station.name.trim(),
+    detail: [station.country, station.codec, station.bitrate ? `${station.bitrate} kbps` : null].filter(Boolean).join(" · "),
+    urls: [getStreamUrl(station)],
+    hls: isHlsStation(station),
+    favicon: station.favicon || undefined,
+});
+
+/**
+ * Searches the favorites and the curated catalog, which answer instantly,
+ * for stations whose name, aliases, genres, language or city contain every
+ * word of the query. Without a query the favorites are suggested. Catalog
+ * stations the search mode doesn't play are left out.
+ */
+export const searchLocalStations = (query: string, favorites: FavoriteStation[], mode?: RadioMode): StationSearchResult[] => {
+    const words = normalizeStationName(query).split(" ").filter(Boolean);
+
+    if (words.length === 0) return favorites.slice(0, MAX_LOCAL_RESULTS).map(fromFavorite);
+
+    const matches = (...values: (string | null)[]) => {
+        const text = normalizeStationName(values.join(" "));
+        return words.every((word) => text.includes(word));
+    };
+
+    const results = new Map<string, StationSearchResult>();
+
+    for (const station of favorites) {
+        if (matches(station.name)) results.set(station.id, fromFavorite(station));
+    }
+
+    for (const station of getStations()) {
+        const id = getFavoriteId(station.name);
+
+        if (station.streams.length === 0 || results.has(id) || (mode && !acceptsCatalogStation(mode, station))) continue;
+        if (!matches(station.name, ...station.aliases, ...station.genres, station.language, station.city)) continue;
+
+        results.set(id, {
+            id: `catalog:${station.id}`,
+            name: station.name,
+            detail: [station.frequency, station.city, station.language].filter(Boolean).join(" · ") || "Station catalog",
+            urls: station.streams,
+            hls: isHlsCodec(station.codec),
+        });
+    }
+
+    return [...results.values()].slice(0, MAX_LOCAL_RESULTS);
+};
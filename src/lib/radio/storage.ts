@@ -0,0 +1,87 @@
+/** Prefix of every key the app stores in `localStorage`. */
+const STORAGE_PREFIX = "radio-chatbot:";
+
+/**
+ * A value persisted in `localStorage` that components can subscribe to.
+ * Changes made in other tabs are picked up as well.
+ */
+export interface Store<T> {
+    /** The value used on the server and when nothing valid is stored. */
+    initial: T;
+    get: () => T;
+    set: (update: T | ((value: T) => T)) => void;
+    /**
+     * Subscribes to changes of the value.
+     *
+     * @returns A function that unsubscribes the listener.
+     */
+    subscribe: (listener: () => void) => () => void;
+}
+
+const readStorage = <T>(key: string, initial: T, parse: (value: unknown) => T | null) => {
+    try {
+        const raw = window.localStorage.getItem(key);
+        return raw === null ? initial : (parse(JSON.parse(raw)) ?? initial);
+    } catch {
+        // Storage is unavailable (e.g. blocked cookies) or holds something we can't read.
+        return initial;
+    }
+};
+
+/**
+ * Creates a store persisted under `radio-chatbot:<key>`.
+ *
+ * @param parse Validates the stored JSON and returns null if it can't be used,
+ * e.g. after the shape changed between versions.
+ */
+export const createStore = <T>(key: string, initial: T, parse: (value: unknown) => T | null): Store<T> => {
+    const storageKey = `${STORAGE_PREFIX}${key}`;
+    const listeners = new Set<() => void>();
+    let value: T | undefined;
+
+    const get = () => {
+        if (typeof window === "undefined") return initial;
+        if (value === undefined) value = readStorage(storageKey, initial, parse);
+
+        return value;
+    };
+
+    const notify = () => listeners.forEach((listener) => listener());
+
+    const handleStorage = (event: StorageEvent) => {
+        if (event.key !== storageKey) return;
+
+        value = readStorage(storageKey, initial, parse);
+        notify();
+    };
+
+    return {
+        initial,
+        get,
+        set: (update) => {
+            value = typeof update === "function" ? (update as (value: T) => T)(get()) : update;
+
+            try {
+                window.localStorage.setItem(storageKey, JSON.stringify(value));
+            } catch {
+                // Keep the value for this session even if it can't be saved.
+            }
+
+            notify();
+        },
+        subscribe: (listener) => {
+            if (listeners.size === 0) window.addEventListener("storage", handleStorage);
+            listeners.add(listener);
+
+            return () => {
+                listeners.delete(listener);
+                if (listeners.size === 0) window.removeEventListener("storage", handleStorage);
+            };
+        },
+    };
+};
+
+/**
+ * Returns the value if it's a plain object, for use in `parse` functions.
+ */
+export const asRecord = (value: unknown) => (typeof value === "object" && value !== null && !Array.isArray(value) ? (value as Record<string, unknown>) : null);
@@ -0,0 +1,162 @@
+import { normalizeStationName } from "./catalog";
+import type { RadioModeId } from "./modes";
+import { isRadioModeId } from "./modes";
+import type { StationCandidate } from "./ranking";
+import type { ResolveAttempt } from "./resolver";
+import { asRecord, createStore } from "./storage";
+
+/** How many conversations are kept; the least recently used are dropped. */
+export const MAX_THREADS = 100;
+
+/** Generated titles are cut to this many characters. */
+const TITLE_LENGTH = 40;
+
+export interface ChatMessage {
+    id: string;
+    role: "user" | "assistant";
+    content: string;
+    stationName?: string;
+    /** The stream that played, so the station card can play it again. */
+    stationUrl?: string;
+    stationHls?: boolean;
+    /** Every stream URL that was tried while connecting to the station. */
+    attempts?: ResolveAttempt[];
+    /** Stations offered to pick from when a search was ambiguous. */
+    candidates?: StationCandidate[];
+    selectedCandidateId?: string;
+    /** The radio mode an assistant reply was made in. */
+    mode?: RadioModeId;
+}
+
+export interface ChatThread {
+    id: string;
+    /** The title the listener gave the thread, or null to generate one from its messages. */
+    title: string | null;
+    /** In milliseconds since the epoch. */
+    createdAt: number;
+    updatedAt: number;
+    messages: ChatMessage[];
+}
+
+export interface Threads {
+    /** Every conversation, most recently updated first. */
+    threads: ChatThread[];
+    /** The open conversation, or null for a new chat that has no messages yet. */
+    activeId: string | null;
+}
+
+export const EMPTY_THREADS: Threads = { threads: [], activeId: null };
+
+/**
+ * Generates a title from the first thing the listener asked for, e.g.
+ * "Play Kodai FM".
+ */
+export const generateThreadTitle = (messages: ChatMessage[]) => {
+    const text = messages
+        .find((message) => message.role === "user")
+        ?.content.replace(/\s+/g, " ")
+        .trim();
+
+    if (!text) return "New chat";
+
+    const title = text.charAt(0).toUpperCase() + text.slice(1);
+    return title.length > TITLE_LENGTH ? `${title.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : title;
+};
+
+export const getThreadTitle = (thread: ChatThread) => thread.title ?? generateThreadTitle(thread.messages);
+
+export const getActiveThread = (threads: Threads) => threads.threads.find((thread) => thread.id === threads.activeId) ?? null;
+
+/**
+ * Saves the messages of a thread and moves it to the top. A thread that
+ * doesn't exist yet is created, so a new chat is only kept once something was
+ * said in it.
+ */
+export const saveThreadMessages = (threads: Threads, id: string, messages: ChatMessage[]): Threads => {
+    const existing = threads.threads.find((thread) => thread.id === id);
+    const now = Date.now();
+    const thread: ChatThread = existing ? { ...existing, messages, updatedAt: now } : { id, title: null, createdAt: now, updatedAt: now, messages };
+
+    return { ...threads, threads: [thread, ...threads.threads.filter((other) => other.id !== id)].slice(0, MAX_THREADS) };
+};
+
+/**
+ * Gives a thread a title. A blank title goes back to the generated one.
+ */
+export const renameThread = (threads: Threads, id: string, title: string): Threads => ({
+    ...threads,
+    threads: threads.threads.map((thread) => (thread.id === id ? { ...thread, title: title.trim() || null } : thread)),
+});
+
+/**
+ * Deletes a thread. Deleting the open thread starts a new chat.
+ */
+export const deleteThread = (threads: Threads, id: string): Threads => ({
+    threads: threads.threads.filter((thread) => thread.id !== id),
+    activeId: threads.activeId === id ? null : threads.activeId,
+});
+
+/**
+ * Finds the threads whose title, messages or stations contain every word of
+ * the query.
+ */
+export const searchThreads = (threads: ChatThread[], query: string) => {
+    const words = normalizeStationName(query).split(" ").filter(Boolean);
+
+    if (words.length === 0) return threads;
+
+    return threads.filter((thread) => {
+        const text = normalizeStationName(
+            [getThreadTitle(thread), ...thread.messages.flatMap((message) => [message.content, message.stationName ?? ""])].join(" "),
+        );
+        return words.every((word) => text.includes(word));
+    });
+};
+
+const parseMessage = (value: unknown): ChatMessage | null => {
+    const record = asRecord(value);
+
+    if (!record || typeof record.id !== "string" || typeof record.content !== "string" || (record.role !== "user" && record.role !== "assistant")) {
+        return null;
+    }
+
+    return {
+        id: record.id,
+        role: record.role,
+        content: record.content,
+        stationName: typeof record.stationName === "string" ? record.stationName : undefined,
+        stationUrl: typeof record.stationUrl === "string" ? record.stationUrl : undefined,
+        stationHls: record.stationHls === true || undefined,
+        attempts: Array.isArray(record.attempts) ? (record.attempts as ResolveAttempt[]) : undefined,
+        candidates: Array.isArray(record.candidates) ? (record.candidates as StationCandidate[]) : undefined,
+        selectedCandidateId: typeof record.selectedCandidateId === "string" ? record.selectedCandidateId : undefined,
+        mode: isRadioModeId(record.mode) ? record.mode : undefined,
+    };
+};
+
+const parseThread = (value: unknown): ChatThread | null => {
+    const record = asRecord(value);
+
+    if (!record || typeof record.id !== "string" || !Array.isArray(record.messages)) return null;
+
+    return {
+        id: record.id,
+        title: typeof record.title === "string" ? record.title : null,
+        createdAt: typeof record.createdAt === "number" ? record.createdAt : 0,
+        updatedAt: typeof record.updatedAt === "number" ? record.updatedAt : 0,
+        messages: record.messages.map(parseMessage).filter((message) => message !== null),
+    };
+};
+
+const parseThreads = (value: unknown): Threads | null => {
+    const record = asRecord(value);
+
+    if (!record || !Array.isArray(record.threads)) return null;
+
+    const threads = record.threads.map(parseThread).filter((thread) => thread !== null);
+    const activeId = typeof record.activeId === "string" && threads.some((thread) => thread.id === record.activeId) ? record.activeId : null;
+
+    return { threads, activeId };
+};
+
+export const threadsStore = createStore("threads", EMPTY_THREADS, parseThreads);
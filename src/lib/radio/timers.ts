@@ -0,0 +1,99 @@
+import { formatDuration } from "./history";
+import { asRecord, createStore } from "./storage";
+
+/** How long the sleep timer fades the volume out before stopping, in milliseconds. */
+export const SLEEP_FADE_DURATION = 60000;
+
+/** How long an alarm takes to ramp the volume up to the listener's level, in milliseconds. */
+export const ALARM_RAMP_DURATION = 60000;
+
+/** The volume an alarm starts at, as a fraction of the listener's level. */
+const ALARM_START_GAIN = 0.05;
+
+/** How long snoozing puts an alarm off, in milliseconds. */
+export const SNOOZE_DURATION = 9 * 60000;
+
+/** Alarms missed by more than this while the app was closed are dropped instead of going off late. */
+const MISSED_ALARM_GRACE = 30 * 60000;
+
+export interface SleepTimer {
+    /** When the player stops, in milliseconds since the epoch. */
+    endsAt: number;
+}
+
+export interface Alarm {
+    /** When the alarm goes off, in milliseconds since the epoch. */
+    at: number;
+    /** The station to wake up to, as the listener asked for it. */
+    station: string;
+    /** When the alarm went off, while it's ringing. */
+    ringingSince: number | null;
+}
+
+export interface Timers {
+    sleep: SleepTimer | null;
+    alarm: Alarm | null;
+}
+
+export const NO_TIMERS: Timers = { sleep: null, alarm: null };
+
+/**
+ * Returns the next time the clock shows the given time, today or tomorrow.
+ */
+export const getNextOccurrence = (hour: number, minute: number, now = Date.now()) => {
+    const date = new Date(now);
+    date.setHours(hour, minute, 0, 0);
+
+    if (date.getTime() <= now) date.setDate(date.getDate() + 1);
+
+    return date.getTime();
+};
+
+/**
+ * Returns how much the timers scale the volume at a given time: the sleep
+ * timer fades out over its last minute and a ringing alarm ramps up.
+ */
+export const getTimerGain = (timers: Timers, now: number) => {
+    const sleepGain = timers.sleep ? Math.min(1, Math.max(0, (timers.sleep.endsAt - now) / SLEEP_FADE_DURATION)) : 1;
+    const ringingSince = timers.alarm?.ringingSince;
+    const alarmGain = ringingSince != null ? Math.min(1, ALARM_START_GAIN + ((1 - ALARM_START_GAIN) * (now - ringingSince)) / ALARM_RAMP_DURATION) : 1;
+
+    return sleepGain * alarmGain;
+};
+
+/**
+ * Formats the time left until a timestamp as e.g. `29:59` or `7:05:00`.
+ */
+export const formatCountdown = (until: number, now: number) => formatDuration(Math.max(0, Math.ceil((until - now) / 1000)));
+
+/**
+ * Formats a number of minutes for a chat reply, e.g. "1 hour 30 minutes".
+ */
+export const formatMinutes = (minutes: number) => {
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    const parts = [hours > 0 && `${hours} ${hours === 1 ? "hour" : "hours"}`, rest > 0 && `${rest} ${rest === 1 ? "minute" : "minutes"}`];
+
+    return parts.filter(Boolean).join(" ");
+};
+
+const parseTimers = (value: unknown): Timers | null => {
+    const record = asRecord(value);
+
+    if (!record) return null;
+
+    const sleep = asRecord(record.sleep);
+    const alarm = asRecord(record.alarm);
+    const now = Date.now();
+
+    return {
+        // A sleep timer that ran out while the app was closed has nothing left to stop.
+        sleep: sleep && typeof sleep.endsAt === "number" && sleep.endsAt > now ? { endsAt: sleep.endsAt } : null,
+        alarm:
+            alarm && typeof alarm.at === "number" && typeof alarm.station === "string" && alarm.at > now - MISSED_ALARM_GRACE
+                ? { at: alarm.at, station: alarm.station, ringingSince: null }
+                : null,
+    };
+};
+
+export const timersStore = createStore("timers", NO_TIMERS, parseTimers);
@@ -0,0 +1,348 @@
+import type { NowPlaying } from "./icy";
+import type { StationCandidate } from "./ranking";
+import type { ResolveAttempt } from "./resolver";
+import type { ChatMessage } from "./threads";
+import { formatMinutes } from "./timers";
+
+/** The longest sleep timer a tool may set, in minutes. */
+const MAX_SLEEP_MINUTES = 24 * 60;
+
+interface BaseParameter {
+    description: string;
+    required?: boolean;
+}
+
+/** The subset of JSON Schema tool parameters are described with. */
+export type ToolParameter =
+    | (BaseParameter & { type: "string" })
+    | (BaseParameter & { type: "number"; minimum?: number; maximum?: number; integer?: boolean })
+    | (BaseParameter & { type: "boolean" });
+
+export interface ToolDefinition {
+    description: string;
+    parameters: Record<string, ToolParameter>;
+}
+
+/**
+ * What the player can do, for the chat and for assistants to call. The
+ * descriptions are written for language models.
+ */
+export const PLAYER_TOOLS = {
+    play_station: {
+        description: "Finds a radio station by name and plays it. Asks the listener to pick when several stations match.",
+        parameters: {
+            station: { type: "string", description: 'The station name, e.g. "Radio Mirchi".', required: true },
+        },
+    },
+    search_stations: {
+        description: "Searches the radio directory and offers the listener up to five stations to pick from. Give at least one filter.",
+        parameters: {
+            query: { type: "string", description: "Part of the station name." },
+            genre: { type: "string", description: 'A genre, e.g. "jazz".' },
+            language: { type: "string", description: 'A language, e.g. "tamil".' },
+            country: { type: "string", description: 'An ISO 3166-1 alpha-2 country code, e.g. "IN".' },
+        },
+    },
+    pause: {
+        description: "Pauses the playing station.",
+        parameters: {},
+    },
+    resume: {
+        description: "Resumes the paused station.",
+        parameters: {},
+    },
+    stop: {
+        description: "Stops the station and unloads it.",
+        parameters: {},
+    },
+    set_volume: {
+        description: "Sets the volume and unmutes.",
+        parameters: {
+            level: { type: "number", description: "The volume in percent.", minimum: 0, maximum: 100, required: true },
+        },
+    },
+    add_favorite: {
+        description: "Adds a station to the listener's favorites, which also makes it a preset while slots are free.",
+        parameters: {
+            station: { type: "string", description: "The station name. Leave it out to add the station that's loaded." },
+        },
+    },
+    set_sleep_timer: {
+        description: "Fades out and stops the radio after a while.",
+        parameters: {
+            minutes: { type: "number", description: "How long until the radio stops.", minimum: 1, maximum: MAX_SLEEP_MINUTES, integer: true, required: true },
+        },
+    },
+    get_now_playing: {
+        description: "Tells the listener which station and track are playing.",
+        parameters: {},
+    },
+} as const satisfies Record<string, ToolDefinition>;
+
+export type ToolName = keyof typeof PLAYER_TOOLS;
+
+type ToolParameters<N extends ToolName> = (typeof PLAYER_TOOLS)[N]["parameters"];
+
+type ParameterValue<P> = P extends { type: "string" } ? string : P extends { type: "number" } ? number : boolean;
+
+/** The arguments of a tool, as its parameters describe them. */
+export type ToolArguments<N extends ToolName> = {
+    -readonly [K in keyof ToolParameters<N> as ToolParameters<N>[K] extends { required: true } ? K : never]: ParameterValue<ToolParameters<N>[K]>;
+} & {
+    -readonly [K in keyof ToolParameters<N> as ToolParameters<N>[K] extends { required: true } ? never : K]?: ParameterValue<ToolParameters<N>[K]>;
+};
+
+/** A tool call that was checked against the tool's parameters. */
+export type ToolCall = { [N in ToolName]: { name: N; arguments: ToolArguments<N> } }[ToolName];
+
+/**
+ * A tool call as an assistant asked for it. It's only checked when it runs,
+ * since assistants can get names and arguments wrong.
+ */
+export interface ToolCallRequest {
+    type: "tool_call";
+    name: string;
+    arguments: unknown;
+}
+
+/**
+ * Creates a tool call from arguments that are known to fit, e.g. for a command
+ * the listener typed.
+ */
+export const toolCall = <N extends ToolName>(name: N, args: ToolArguments<N>): ToolCallRequest => ({ type: "tool_call", name, arguments: args });
+
+/**
+ * A tool call that can't be made, with a message the listener can read, e.g.
+ * invalid arguments or nothing to pause.
+ */
+export class ToolError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ToolError";
+    }
+}
+
+export const isToolName = (name: string): name is ToolName => Object.hasOwn(PLAYER_TOOLS, name);
+
+const describeRange = (parameter: Extract<ToolParameter, { type: "number" }>) => {
+    const kind = parameter.integer ? "a whole number" : "a number";
+
+    if (parameter.minimum !== undefined && parameter.maximum !== undefined) return `${kind} from ${parameter.minimum} to ${parameter.maximum}`;
+    if (parameter.minimum !== undefined) return `${kind} of at least ${parameter.minimum}`;
+    if (parameter.maximum !== undefined) return `${kind} of at most ${parameter.maximum}`;
+
+    return kind;
+};
+
+/**
+ * Checks one argument against its parameter.
+ *
+ * @returns Why the value doesn't fit, or null if it does.
+ */
+const checkArgument = (parameter: ToolParameter, value: unknown) => {
+    switch (parameter.type) {
+        case "string":
+            return typeof value === "string" ? null : "text";
+        case "boolean":
+            return typeof value === "boolean" ? null : "true or false";
+        case "number": {
+            const fits =
+                typeof value === "number" &&
+                Number.isFinite(value) &&
+                (!parameter.integer || Number.isInteger(value)) &&
+                (parameter.minimum === undefined || value >= parameter.minimum) &&
+                (parameter.maximum === undefined || value <= parameter.maximum);
+
+            return fits ? null : describeRange(parameter);
+        }
+    }
+};
+
+/**
+ * Checks a tool call against the tool's parameters. Optional arguments may
+ * also be null or empty, which models tend to send instead of leaving them out.
+ *
+ * @throws {ToolError} If the tool doesn't exist or the arguments don't fit.
+ */
+export const parseToolCall = (name: string, args: unknown): ToolCall => {
+    if (!isToolName(name)) throw new ToolError(`There's no "${name}" command.`);
+
+    const parameters: Record<string, ToolParameter> = PLAYER_TOOLS[name].parameters;
+    const values = args ?? {};
+
+    if (typeof values !== "object" || Array.isArray(values)) throw new ToolError(`Can't run ${name}: its arguments must be an object.`);
+
+    const parsed: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(values)) {
+        if (!Object.hasOwn(parameters, key)) throw new ToolError(`Can't run ${name}: it doesn't take "${key}".`);
+        const trimmed = typeof value === "string" ? value.trim() : value;
+        if (trimmed !== null && trimmed !== "") parsed[key] = trimmed;
+    }
+
+    for (const [key, parameter] of Object.entries(parameters)) {
+        if (parsed[key] === undefined) {
+            if (parameter.required) throw new ToolError(`Can't run ${name}: "${key}" is missing.`);
+            continue;
+        }
+
+        const expected = checkArgument(parameter, parsed[key]);
+        if (expected) throw new ToolError(`Can't run ${name}: "${key}" must be ${expected}, not ${JSON.stringify(parsed[key])}.`);
+    }
+
+    return { name, arguments: parsed } as ToolCall;
+};
+
+export type PlayStationResult =
+    | { status: "playing" | "ready"; station: string; url: string; hls?: boolean; attempts: ResolveAttempt[] }
+    /** `kept` is the station that kept playing instead, if any. */
+    | { status: "failed"; station: string; kept: string | null; attempts: ResolveAttempt[] }
+    /** Another station was asked for while this one was connecting. */
+    | { status: "superseded"; station: string }
+    | { status: "ambiguous"; query: string; candidates: StationCandidate[] };
+
+/** What each tool returns when it succeeds. */
+export interface ToolResults {
+    play_station: PlayStationResult;
+    /** `label` describes what was searched for, e.g. `tamil jazz`. */
+    search_stations: { label: string; candidates: StationCandidate[] };
+    pause: { station: string };
+    resume: { station: string };
+    stop: { station: string };
+    /** `level` is the volume that was set, from 0 to 1. */
+    set_volume: { level: number };
+    /** `preset` is the preset slot the station got, from 1, or null if it has none. */
+    add_favorite: { station: string; added: boolean; preset: number | null };
+    set_sleep_timer: { minutes: number };
+    get_now_playing: { station: string; track: NowPlaying | null; isPlaying: boolean };
+}
+
+export type ToolResult = { [N in ToolName]: { tool: N; ok: true; data: ToolResults[N] } }[ToolName] | { tool: string; ok: false; error: string };
+
+export interface ToolContext {
+    /** Shows what a slow tool is doing, e.g. "Searching for jazz...". */
+    report: (content: string) => void;
+}
+
+export type ToolHandlers = { [N in ToolName]: (args: ToolArguments<N>, context: ToolContext) => ToolResults[N] | Promise<ToolResults[N]> };
+
+/**
+ * Checks a tool call and runs it. Failures come back as results rather than
+ * errors, so a bad call from an assistant never breaks the chat.
+ */
+export const invokeTool = async (handlers: ToolHandlers, request: ToolCallRequest, context: ToolContext): Promise<ToolResult> => {
+    try {
+        const call = parseToolCall(request.name, request.arguments);
+        // The handler always matches the call's name, which TypeScript can't follow through the union
+        const handler = handlers[call.name] as (args: ToolCall["arguments"], context: ToolContext) => Promise<unknown>;
+
+        return { tool: call.name, ok: true, data: await handler(call.arguments, context) } as ToolResult;
+    } catch (error) {
+        if (error instanceof ToolError) return { tool: request.name, ok: false, error: error.message };
+
+        console.error(`Tool ${request.name} failed:`, error);
+        return { tool: request.name, ok: false, error: "Something went wrong. Please try again." };
+    }
+};
+
+/** The chat message fields a tool result is shown with. */
+export type ToolMessage = Partial<Pick<ChatMessage, "content" | "stationName" | "stationUrl" | "stationHls" | "attempts" | "candidates">>;
+
+const renderPlayStation = (result: PlayStationResult): ToolMessage => {
+    switch (result.status) {
+        case "playing":
+        case "ready":
+            return {
+                content: result.status === "playing" ? `✅ Now playing ${result.station}` : `${result.station} is ready. Press play to start listening.`,
+                stationName: result.station,
+                stationUrl: result.url,
+                stationHls: result.hls,
+                attempts: result.attempts,
+            };
+        case "failed":
+            return {
+                content: result.kept
+                    ? `Sorry, I couldn't play ${result.station}. None of its streams responded, so ${result.kept} keeps playing.`
+                    : `Sorry, I couldn't play ${result.station}. None of its streams responded, either directly or through the stream proxy. Try a different station like "Classic FM".`,
+                stationName: undefined,
+                stationUrl: undefined,
+                stationHls: undefined,
+                attempts: result.attempts,
+            };
+        case "superseded":
+            return { content: `Switched to another station before ${result.station} connected.` };
+        case "ambiguous":
+            return { content: `I found several stations matching "${result.query}". Which one did you mean?`, candidates: result.candidates };
+    }
+};
+
+/**
+ * Turns a tool result into the chat message that shows it.
+ */
+export const renderToolResult = (result: ToolResult): ToolMessage => {
+    if (!result.ok) return { content: result.error };
+
+    switch (result.tool) {
+        case "play_station":
+            return renderPlayStation(result.data);
+        case "search_stations": {
+            const { label, candidates } = result.data;
+            return candidates.length > 0
+                ? { content: `Here's what I found for ${label}. Pick one to play it.`, candidates }
+                : { content: `I couldn't find any stations for ${label}. Try another name, genre or language.` };
+        }
+        case "pause":
+            return { content: `Paused ${result.data.station}.` };
+        case "resume":
+            return { content: `Resuming ${result.data.station}.` };
+        case "stop":
+            return { content: `Stopped ${result.data.station}.` };
+        case "set_volume":
+            return { content: `Volume set to ${Math.round(result.data.level * 100)}%.` };
+        case "add_favorite": {
+            const { station, added, preset } = result.data;
+            if (!added) return { content: `${station} is already in your favorites.` };
+
+            return { content: `Added ${station} to your favorites.${preset !== null ? ` Press ${preset} to play it.` : ""}` };
+        }
+        case "set_sleep_timer":
+            return { content: `Okay, I'll fade out and stop the radio in ${formatMinutes(result.data.minutes)}.` };
+        case "get_now_playing": {
+            const { station, track, isPlaying } = result.data;
+            const paused = isPlaying ? "" : " (paused)";
+
+            return {
+                content: track
+                    ? `That's "${track.title}"${track.artist ? ` by ${track.artist}` : ""}, on ${station}${paused}.`
+                    : `You're listening to ${station}${paused}. The station isn't announcing track details right now.`,
+            };
+        }
+    }
+};
+
+const toJsonSchema = (parameter: ToolParameter) =>
+    parameter.type === "number"
+        ? { type: parameter.integer ? "integer" : "number", description: parameter.description, minimum: parameter.minimum, maximum: parameter.maximum }
+        : { type: parameter.type, description: parameter.description };
+
+/**
+ * Describes the tools in the format of OpenAI-compatible chat completions APIs.
+ */
+export const toFunctionDefinitions = () =>
+    Object.entries(PLAYER_TOOLS).map(([name, tool]) => {
+        const parameters = Object.entries<ToolParameter>(tool.parameters);
+
+        return {
+            type: "function",
+            function: {
+                name,
+                description: tool.description,
+                parameters: {
+                    type: "object",
+                    properties: Object.fromEntries(parameters.map(([key, parameter]) => [key, toJsonSchema(parameter)])),
+                    required: parameters.filter(([, parameter]) => parameter.required).map(([key]) => key),
+                    additionalProperties: false,
+                },
+            },
+        };
+    });
@@ -0,0 +1,313 @@
+import type { LookupAddress } from "node:dns";
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+import { Agent } from "undici";
+
+/** How long to wait for the upstream server to answer before giving up on a URL. */
+const CONNECT_TIMEOUT = 10000;
+
+/** How many redirects are followed before the upstream URL counts as unreachable. */
+const MAX_REDIRECTS = 5;
+
+export class UpstreamError extends Error {
+    constructor(
+        message: string,
+        /** The HTTP status the proxy should respond with. */
+        public readonly status: number,
+    ) {
+        super(message);
+        this.name = "UpstreamError";
+    }
+}
+
+/** Content types that are inferred from the file extension when the upstream server doesn't send a useful one. */
+const EXTENSION_CONTENT_TYPES: Record<string, string> = {
+    mp3: "audio/mpeg",
+    aac: "audio/aac",
+    aacp: "audio/aacp",
+    m4a: "audio/mp4",
+    ogg: "audio/ogg",
+    oga: "audio/ogg",
+    opus: "audio/ogg; codecs=opus",
+    flac: "audio/flac",
+    wav: "audio/wav",
+    m3u: "audio/x-mpegurl",
+    m3u8: "application/vnd.apple.mpegurl",
+    pls: "audio/x-scpls",
+    asx: "video/x-ms-asf",
+    xspf: "application/xspf+xml",
+    ts: "video/mp2t",
+};
+
+/**
+ * Types served besides `audio/*`: playlists, and HLS segments, which are often
+ * labelled as video even when they only carry audio. Anything else, like web
+ * pages or JSON, isn't passed on.
+ */
+const ALLOWED_CONTENT_TYPES = [
+    "application/ogg",
+    "application/vnd.apple.mpegurl",
+    "application/x-mpegurl",
+    "application/pls+xml",
+    "application/xspf+xml",
+    "application/vnd.ms-asf",
+    "video/x-ms-asf",
+    "video/x-ms-asx",
+    "video/mp2t",
+    "video/mp4",
+    "video/iso.segment",
+];
+
+/**
+ * Types that say nothing about the content, so the file extension decides.
+ * Playlists are often served as plain text; web pages never count, since they
+ * are what error and landing pages are.
+ */
+const GENERIC_CONTENT_TYPES = ["", "application/octet-stream", "text/plain"];
+
+/**
+ * Picks the content type to serve, or returns null if the upstream response
+ * isn't audio or a playlist.
+ */
+export const resolveContentType = (url: URL, upstreamType: string | null) => {
+    const type = upstreamType?.trim() ?? "";
+    const baseType = type.split(";")[0].trim().toLowerCase();
+
+    if (!GENERIC_CONTENT_TYPES.includes(baseType)) {
+        return baseType.startsWith("audio/") || ALLOWED_CONTENT_TYPES.includes(baseType) ? type : null;
+    }
+
+    const extension = url.pathname.split(".").pop()?.toLowerCase() ?? "";
+
+    return EXTENSION_CONTENT_TYPES[extension] ?? "audio/mpeg";
+};
+
+/**
+ * Returns a JSON error response for a proxy route.
+ */
+export const jsonError = (message: string, status: number) => Response.json({ error: message }, { status, headers: { "Cache-Control": "no-store" } });
+
+/**
+ * Parses the `url` query parameter of a proxy request, accepting only http(s) URLs.
+ */
+export const parseUpstreamUrl = (value: string | null) => {
+    if (!value) return null;
+
+    try {
+        const url = new URL(value);
+        return url.protocol === "http:" || url.protocol === "https:" ? url : null;
+    } catch {
+        return null;
+    }
+};
+
+const isPrivateIpv4 = (address: string) => {
+    const [a, b, c] = address.split(".").map(Number);
+
+    return (
+        a === 0 ||
+        a === 10 ||
+        a === 127 ||
+        (a === 100 && b >= 64 && b <= 127) ||
+        (a === 169 && b === 254) ||
+        (a === 172 && b >= 16 && b <= 31) ||
+        (a === 192 && b === 0 && (c === 0 || c === 2)) ||
+        (a === 192 && b === 168) ||
+        (a === 198 && (b === 18 || b === 19)) ||
+        (a === 198 && b === 51 && c === 100) ||
+        (a === 203 && b === 0 && c === 113) ||
+        a >= 224
+    );
+};
+
+const isPrivateIpv6 = (address: string) => {
+    const normalized = address.toLowerCase();
+    // IPv4 addresses mapped into IPv6, written either way, e.g. `::ffff:127.0.0.1` or `::ffff:7f00:1`
+    const dotted = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    const hex = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+
+    if (dotted) return isPrivateIpv4(dotted[1]);
+    if (hex) {
+        const [high, low] = [Number.parseInt(hex[1], 16), Number.parseInt(hex[2], 16)];
+        return isPrivateIpv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+
+    return (
+        normalized === "::" ||
+        normalized === "::1" ||
+        /^f[cd]/.test(normalized) ||
+        /^fe[89ab]/.test(normalized) ||
+        normalized.startsWith("ff") ||
+        // NAT64 and 6to4, which lead to IPv4 addresses, and the documentation range
+        normalized.startsWith("64:ff9b:") ||
+        normalized.startsWith("2002:") ||
+        normalized.startsWith("2001:db8:")
+    );
+};
+
+/**
+ * Checks whether an IP address is reachable from the internet, as opposed to
+ * loopback, private, link-local (e.g. cloud metadata at 169.254.169.254) or
+ * otherwise reserved.
+ */
+export const isPublicAddress = (address: string) => {
+    const version = isIP(address);
+
+    if (version === 4) return !isPrivateIpv4(address);
+    if (version === 6) return !isPrivateIpv6(address);
+
+    return false;
+};
+
+/**
+ * Makes sure a URL points at a public server before it's requested, so the
+ * proxy can't be used to reach the server's own network. Host names are
+ * resolved and every address they resolve to has to be public.
+ *
+ * @returns The checked addresses, which the request has to connect to.
+ * @throws {UpstreamError} If the URL isn't http(s), can't be resolved or points at a private address.
+ */
+const resolvePublicAddresses = async (url: URL): Promise<LookupAddress[]> => {
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+        throw new UpstreamError("Only http(s) streams can be played.", 400);
+    }
+
+    const hostname = url.hostname.replace(/^\[|\]$/g, "");
+    const version = isIP(hostname);
+    const addresses = version
+        ? [{ address: hostname, family: version }]
+        : await lookup(hostname, { all: true, verbatim: true }).catch(() => {
+              throw new UpstreamError("The stream's server couldn't be found.", 502);
+          });
+
+    if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+        throw new UpstreamError("Streams on private networks can't be played through the proxy.", 403);
+    }
+
+    return addresses;
+};
+
+/**
+ * Creates a connection pool that only connects to the given addresses. Without
+ * it, `fetch` would resolve the host name again, and a server that answers the
+ * second lookup with a private address (DNS rebinding) would get past the check.
+ */
+const createPinnedAgent = (addresses: LookupAddress[]) =>
+    new Agent({
+        connect: {
+            lookup: (_hostname, options, callback) => {
+                if (options.all) {
+                    callback(null, addresses);
+                } else {
+                    callback(null, addresses[0].address, addresses[0].family);
+                }
+            },
+        },
+    });
+
+/**
+ * Connects to the upstream URL, aborting if the server doesn't answer within
+ * the connect timeout. Redirects are followed by hand, so every hop is checked
+ * like the URL itself. The upstream request stays tied to the client request,
+ * so we stop reading from the station as soon as the listener goes away.
+ *
+ * @returns The response and the URL that answered, after redirects.
+ */
+const connect = async (url: URL, signal: AbortSignal, headers: Record<string, string>) => {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    const timeout = setTimeout(abort, CONNECT_TIMEOUT);
+
+    signal.addEventListener("abort", abort);
+
+    try {
+        let current = url;
+
+        for (let redirects = 0; ; redirects++) {
+            const agent = createPinnedAgent(await resolvePublicAddresses(current));
+            const init = {
+                signal: controller.signal,
+                redirect: "manual",
+                cache: "no-store",
+                headers: {
+                    "User-Agent": "RadioChatBot/1.0",
+                    Accept: "*/*",
+                    ...headers,
+                },
+                dispatcher: agent,
+            } satisfies RequestInit & { dispatcher: Agent };
+            // The agent takes no new requests, but keeps serving this one until its body is done
+            const response = await fetch(current, init).finally(() => {
+                agent.close().catch(() => {});
+            });
+            const location = response.headers.get("location");
+
+            if (response.status >= 300 && response.status < 400 && location) {
+                await response.body?.cancel();
+
+                if (redirects === MAX_REDIRECTS) throw new Error("Too many redirects");
+
+                current = new URL(location, current);
+                continue;
+            }
+
+            if (!response.ok || !response.body) {
+                throw new Error(`Upstream responded with ${response.status}`);
+            }
+
+            return { response, url: current };
+        }
+    } catch (error) {
+        signal.removeEventListener("abort", abort);
+        throw error;
+    } finally {
+        clearTimeout(timeout);
+    }
+};
+
+/**
+ * Returns the URLs to attempt for an upstream stream. Plain `http://` streams
+ * are upgraded to `https://` first and only requested insecurely if the
+ * upgraded URL can't be reached.
+ */
+const getCandidates = (url: URL) => {
+    if (url.protocol !== "http:") return [url];
+
+    const upgraded = new URL(url);
+    upgraded.protocol = "https:";
+    // Explicit ports almost always belong to the plain-text listener.
+    if (upgraded.port) return [url, upgraded];
+
+    return [upgraded, url];
+};
+
+/**
+ * Opens an upstream stream, upgrading `http://` URLs to `https://` where the
+ * station supports it.
+ *
+ * @returns The upstream response and the URL that answered, after redirects.
+ * @throws {UpstreamError} If the URL points at a private network or none of the candidate URLs could be reached.
+ */
+export const openUpstream = async (url: URL, signal: AbortSignal, headers: Record<string, string> = {}) => {
+    let lastError: unknown = null;
+
+    for (const candidate of getCandidates(url)) {
+        if (signal.aborted) break;
+
+        try {
+            return await connect(candidate, signal, headers);
+        } catch (error) {
+            // A URL that may not be requested stays off limits over https:// as well
+            if (error instanceof UpstreamError) throw error;
+            lastError = error;
+        }
+    }
+
+    if (signal.aborted) {
+        throw new UpstreamError("The listener disconnected.", 499);
+    }
+
+    const timedOut = lastError instanceof Error && lastError.name === "AbortError";
+
+    throw timedOut ? new UpstreamError("The stream didn't respond in time.", 504) : new UpstreamError("The stream couldn't be reached.", 502);
+};
@@ -0,0 +1,140 @@
+import { createStore } from "./storage";
+
+export type VisualizerStyle = "bars" | "waveform" | "pulse";
+
+export const VISUALIZER_STYLES: { id: VisualizerStyle; label: string }[] = [
+    { id: "bars", label: "Spectrum" },
+    { id: "waveform", label: "Waveform" },
+    { id: "pulse", label: "Pulse" },
+];
+
+/** How many bars the spectrum is drawn with. */
+export const BAR_COUNT = 16;
+
+/** How many points the waveform is drawn with. */
+const WAVEFORM_POINTS = 48;
+
+/** The share of the frequency bins that's drawn; the top ones stay empty for most stations. */
+const SPECTRUM_RANGE = 0.7;
+
+/** How tall bars and the pulse are at rest, relative to the canvas. */
+const REST_LEVEL = 0.08;
+
+/** What the visualizer draws, with levels from 0 to 1 and the waveform from -1 to 1. */
+export interface VisualizerFrame {
+    bars: number[];
+    waveform: number[];
+    /** The overall loudness. */
+    level: number;
+}
+
+export const REST_FRAME: VisualizerFrame = {
+    bars: Array.from({ length: BAR_COUNT }, () => 0),
+    waveform: Array.from({ length: WAVEFORM_POINTS }, () => 0),
+    level: 0,
+};
+
+/**
+ * Buffers to read an analyser into, reused every frame.
+ */
+export const createAnalyserBuffers = (analyser: AnalyserNode) => ({
+    frequencies: new Uint8Array(analyser.frequencyBinCount),
+    samples: new Uint8Array(analyser.fftSize),
+});
+
+export type AnalyserBuffers = ReturnType<typeof createAnalyserBuffers>;
+
+/**
+ * Reads the current frame from an analyser.
+ *
+ * @returns The frame, or null if every sample is silent. Analysers also read
+ * silence from streams the browser won't let Web Audio see, e.g. without CORS.
+ */
+export const readFrame = (analyser: AnalyserNode, { frequencies, samples }: AnalyserBuffers): VisualizerFrame | null => {
+    analyser.getByteFrequencyData(frequencies);
+    analyser.getByteTimeDomainData(samples);
+
+    if (samples.every((sample) => sample === 128)) return null;
+
+    // Bins are spread evenly over the frequencies, so lower bars cover fewer of them, like the ear does
+    const range = Math.floor(frequencies.length * SPECTRUM_RANGE);
+    const bars = Array.from({ length: BAR_COUNT }, (_, index) => {
+        const start = Math.floor(range * (index / BAR_COUNT) ** 2);
+        const end = Math.max(start + 1, Math.floor(range * ((index + 1) / BAR_COUNT) ** 2));
+        let peak = 0;
+
+        for (let bin = start; bin < end; bin++) peak = Math.max(peak, frequencies[bin]);
+
+        return peak / 255;
+    });
+
+    const waveform = Array.from({ length: WAVEFORM_POINTS }, (_, index) => (samples[Math.floor((index / WAVEFORM_POINTS) * samples.length)] - 128) / 128);
+
+    let sum = 0;
+    for (const sample of samples) sum += ((sample - 128) / 128) ** 2;
+
+    return { bars, waveform, level: Math.min(1, Math.sqrt(sum / samples.length) * 3) };
+};
+
+/**
+ * A slow, made-up frame for when the audio can't be read.
+ *
+ * @param time The time in milliseconds, e.g. from `performance.now()`.
+ */
+export const getIdleFrame = (time: number): VisualizerFrame => {
+    const phase = time / 900;
+
+    return {
+        bars: Array.from({ length: BAR_COUNT }, (_, index) => 0.25 + 0.15 * Math.sin(phase + index * 0.6)),
+        waveform: Array.from({ length: WAVEFORM_POINTS }, (_, index) => 0.2 * Math.sin(phase * 2 + (index / WAVEFORM_POINTS) * Math.PI * 4)),
+        level: 0.3 + 0.15 * Math.sin(phase),
+    };
+};
+
+/**
+ * Draws a frame onto a canvas, filling it entirely.
+ */
+export const drawFrame = (context: CanvasRenderingContext2D, style: VisualizerStyle, frame: VisualizerFrame, color: string) => {
+    const { width, height } = context.canvas;
+
+    context.clearRect(0, 0, width, height);
+    context.fillStyle = color;
+    context.strokeStyle = color;
+
+    if (style === "bars") {
+        const slot = width / frame.bars.length;
+        const barWidth = Math.max(1, slot * 0.6);
+
+        frame.bars.forEach((level, index) => {
+            const barHeight = Math.max(REST_LEVEL, level) * height;
+            context.fillRect(index * slot + (slot - barWidth) / 2, (height - barHeight) / 2, barWidth, barHeight);
+        });
+    } else if (style === "waveform") {
+        context.lineWidth = Math.max(1, height / 24);
+        context.lineJoin = "round";
+        context.beginPath();
+        frame.waveform.forEach((sample, index) => {
+            const x = (index / (frame.waveform.length - 1)) * width;
+            const y = height / 2 - (sample * height) / 2;
+
+            if (index === 0) context.moveTo(x, y);
+            else context.lineTo(x, y);
+        });
+        context.stroke();
+    } else {
+        const radius = (Math.max(REST_LEVEL * 2, frame.level) * Math.min(width, height)) / 2;
+
+        context.globalAlpha = 0.3;
+        context.beginPath();
+        context.arc(width / 2, height / 2, radius, 0, Math.PI * 2);
+        context.fill();
+        context.globalAlpha = 1;
+        context.beginPath();
+        context.arc(width / 2, height / 2, radius * 0.5, 0, Math.PI * 2);
+        context.fill();
+    }
+};
+
+const parseStyle = (value: unknown) => (VISUALIZER_STYLES.some(({ id }) => id === value) ? (value as VisualizerStyle) : null);
+
+export const visualizerStyleStore = createStore<VisualizerStyle>("visualizer-style", "bars", parseStyle);
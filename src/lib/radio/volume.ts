@@ -0,0 +1,21 @@
+import { asRecord, createStore } from "./storage";
+
+export interface VolumeSettings {
+    /** From 0 to 1. */
+    level: number;
+    muted: boolean;
+}
+
+export const DEFAULT_VOLUME: VolumeSettings = { level: 1, muted: false };
+
+export const clampVolume = (level: number) => Math.min(1, Math.max(0, level));
+
+const parseVolume = (value: unknown): VolumeSettings | null => {
+    const record = asRecord(value);
+
+    if (!record || typeof record.level !== "number" || !Number.isFinite(record.level)) return null;
+
+    return { level: clampVolume(record.level), muted: record.muted === true };
+};
+
+export const volumeStore = createStore("volume", DEFAULT_VOLUME, parseVolume);
@@ -0,0 +1,16 @@
+/** How long the browser gets to start a download before its object URL is revoked, in milliseconds. */
+const REVOKE_DELAY = 60000;
+
+/**
+ * Saves a blob as a file through a temporary link. The object URL outlives
+ * the click, since some browsers only start reading it afterwards.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY);
+};
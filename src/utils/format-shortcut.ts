@@ -0,0 +1,69 @@
+const APPLE_KEYS: Record<string, string> = {
+    mod: "⌘",
+    meta: "⌘",
+    ctrl: "⌃",
+    control: "⌃",
+    alt: "⌥",
+    shift: "⇧",
+};
+
+const OTHER_KEYS: Record<string, string> = {
+    mod: "Ctrl",
+    meta: "Win",
+    ctrl: "Ctrl",
+    control: "Ctrl",
+    alt: "Alt",
+    shift: "Shift",
+};
+
+const KEYS: Record<string, string> = {
+    space: "Space",
+    up: "↑",
+    arrowup: "↑",
+    down: "↓",
+    arrowdown: "↓",
+    left: "←",
+    arrowleft: "←",
+    right: "→",
+    arrowright: "→",
+    esc: "Esc",
+    escape: "Esc",
+    enter: "↵",
+    return: "↵",
+    slash: "/",
+    comma: ",",
+    period: ".",
+    minus: "-",
+    equal: "=",
+};
+
+/** Keys that are typed with shift and are shown as the character they produce. */
+const SHIFTED_KEYS: Record<string, string> = {
+    slash: "?",
+    equal: "+",
+};
+
+/**
+ * Formats a hotkey in react-hotkeys-hook syntax, e.g. `mod+k` or `g>p`, the
+ * way the platform shows shortcuts: `⌘K` on Apple devices and `Ctrl+K`
+ * elsewhere.
+ */
+export const formatShortcut = (hotkey: string, isApple: boolean) => {
+    const modifiers = isApple ? APPLE_KEYS : OTHER_KEYS;
+
+    const formatCombination = (combination: string) => {
+        const parts = combination.trim().toLowerCase().split("+");
+        const key = parts.pop() ?? "";
+        const held = parts.filter((part) => part in modifiers);
+
+        if (held.includes("shift") && key in SHIFTED_KEYS) {
+            return [...held.filter((part) => part !== "shift").map((part) => modifiers[part]), SHIFTED_KEYS[key]].join(isApple ? "" : "+");
+        }
+
+        const label = KEYS[key] ?? modifiers[key] ?? key.replace(/^(key|digit)/, "").toUpperCase();
+
+        return [...held.map((part) => modifiers[part]), label].join(isApple ? "" : "+");
+    };
+
+    return hotkey.split(">").map(formatCombination).join(" then ");
+};